@@ -1,5 +1,5 @@
 import { config } from 'dotenv';
-import { Config, MetadataTemplate } from './types';
+import { Config, GLOSSARY_MODES, MetadataTemplate, ModelRoute, ModelTarget, ProviderName, PROVIDER_NAMES, VALIDATION_POLICIES, ValidatorName, VALIDATOR_NAMES } from './types';
 
 // 加载 .env 文件
 config();
@@ -23,6 +23,18 @@ const parser = {
     return value.split(',').map(item => item.trim()).filter(Boolean);
   },
 
+  /**
+   * 取值必须是允许的值之一，未设置时使用默认值
+   */
+  oneOf: <T extends string>(name: string, value: string | undefined, allowed: readonly T[], defaultValue: T): T => {
+    const normalized = value?.trim().toLowerCase();
+    if (!normalized) return defaultValue;
+    if (!allowed.includes(normalized as T)) {
+      throw new Error(`${name} 的值无效：${value}（可选值：${allowed.join(', ')}）`);
+    }
+    return normalized as T;
+  },
+
   keyValue: (value: string | undefined, separator = ';'): Record<string, string> => {
     if (!value?.trim()) return {};
     return value.split(separator).reduce((acc, pair) => {
@@ -63,12 +75,69 @@ function parseTranslations(value: string | undefined): Record<string, string> {
   }, {} as Record<string, string>);
 }
 
+/**
+ * 各提供商的默认端点（Azure OpenAI 没有默认端点）
+ */
+const DEFAULT_ENDPOINTS: Partial<Record<ProviderName, string>> = {
+  openai: 'https://api.openai.com/v1',
+  anthropic: 'https://api.anthropic.com',
+  ollama: 'http://localhost:11434',
+};
+
+/**
+ * 解析模型，格式为 [提供商:]模型[@端点]，如 gpt-4o-mini、anthropic:claude-sonnet-4-5、ollama:qwen2.5:14b@http://gpu:11434
+ * 未指定提供商时使用 PROVIDER；与 PROVIDER 相同的提供商默认使用 API_ENDPOINT，其他提供商使用其默认端点；
+ * API key 优先使用 <提供商>_API_KEY（如 ANTHROPIC_API_KEY），否则使用 API_KEY
+ */
+function parseModelTarget(value: string, primary: ModelTarget, env: NodeJS.ProcessEnv): ModelTarget {
+  const at = value.indexOf('@');
+  const spec = at >= 0 ? value.slice(0, at).trim() : value.trim();
+  const endpoint = at >= 0 ? value.slice(at + 1).trim() : '';
+
+  // 模型名称本身可能含冒号（如 Ollama 的 qwen2.5:14b），只有冒号前是提供商名称时才视为前缀
+  const colon = spec.indexOf(':');
+  const prefix = colon >= 0 ? spec.slice(0, colon).toLowerCase() as ProviderName : undefined;
+  const provider = prefix && PROVIDER_NAMES.includes(prefix) ? prefix : primary.provider;
+  const model = provider === prefix ? spec.slice(colon + 1) : spec;
+
+  return {
+    provider,
+    model,
+    apiEndpoint: endpoint || (provider === primary.provider ? primary.apiEndpoint : DEFAULT_ENDPOINTS[provider] ?? ''),
+    apiKey: env[`${provider.toUpperCase()}_API_KEY`] || primary.apiKey,
+  };
+}
+
+/**
+ * 解析模型路由规则，格式为 条件=模型;条件=模型，如 .yml=gpt-4o-mini;docs/**=gpt-4o;>200kb=gpt-4o-mini
+ */
+function parseModelRoutes(value: string | undefined, primary: ModelTarget, env: NodeJS.ProcessEnv): ModelRoute[] {
+  if (!value?.trim()) return [];
+  return value.split(';').reduce((acc, rule) => {
+    const separator = rule.indexOf('=');
+    const pattern = rule.slice(0, separator).trim();
+    const target = rule.slice(separator + 1).trim();
+    if (separator > 0 && pattern && target) {
+      acc.push({ pattern, target: parseModelTarget(target, primary, env) });
+    }
+    return acc;
+  }, [] as ModelRoute[]);
+}
+
 /**
  * 加载配置
  */
 export function loadConfig(): Config {
   const env = process.env;
-  const required = ['API_ENDPOINT', 'API_KEY'];
+  const provider = (env.PROVIDER || 'openai').toLowerCase() as ProviderName;
+  // Anthropic 和 Ollama 有默认端点，本地 Ollama 不需要 API key
+  const requiredByProvider: Record<ProviderName, string[]> = {
+    openai: ['API_ENDPOINT', 'API_KEY'],
+    azure: ['API_ENDPOINT', 'API_KEY'],
+    anthropic: ['API_KEY'],
+    ollama: [],
+  };
+  const required = requiredByProvider[provider] ?? requiredByProvider.openai;
 
   // 验证必需的配置项
   const missing = required.filter(key => !env[key]);
@@ -76,6 +145,13 @@ export function loadConfig(): Config {
     throw new Error(`环境变量中缺少以下必需配置：${missing.join(', ')}`);
   }
 
+  const primary: ModelTarget = {
+    provider,
+    model: env.MODEL_NAME || 'gpt-3.5-turbo',
+    apiEndpoint: env.API_ENDPOINT || DEFAULT_ENDPOINTS[provider] || '',
+    apiKey: env.API_KEY || '',
+  };
+
   // 默认的系统提示词模板
   const defaultSystemPromptTemplate = [
     '你是一个专业的翻译专家，负责将{SOURCE_LANG}翻译成{TARGET_LANG}。',
@@ -105,9 +181,21 @@ export function loadConfig(): Config {
 
   return {
     // API 设置
-    apiEndpoint: env.API_ENDPOINT!,
-    apiKey: env.API_KEY!,
-    modelName: env.MODEL_NAME || 'gpt-3.5-turbo',
+    provider,
+    apiEndpoint: primary.apiEndpoint,
+    apiKey: primary.apiKey,
+    modelName: primary.model,
+    maxOutputTokens: parser.number(env.MAX_OUTPUT_TOKENS, 0),
+    azure: {
+      deployment: env.AZURE_DEPLOYMENT || '',
+      apiVersion: env.AZURE_API_VERSION || '2024-10-21',
+    },
+    rateLimit: {
+      requestsPerMinute: parser.number(env.RATE_LIMIT_RPM, 0),
+      tokensPerMinute: parser.number(env.RATE_LIMIT_TPM, 0),
+    },
+    fallbackModels: parser.array(env.FALLBACK_MODELS).map(value => parseModelTarget(value, primary, env)),
+    modelRoutes: parseModelRoutes(env.MODEL_ROUTES, primary, env),
 
     // 翻译设置
     maxConcurrentTranslations: parser.number(env.MAX_CONCURRENT_TRANSLATIONS, 3),
@@ -122,7 +210,7 @@ export function loadConfig(): Config {
 
     // 文件设置
     supportedExtensions: parser.array(env.SUPPORTED_EXTENSIONS, [
-      '.txt', '.md', '.mdx', '.json', '.yaml', '.yml', '.html', '.htm', '.xml', '.csv'
+      '.txt', '.md', '.mdx', '.json', '.yaml', '.yml', '.html', '.htm', '.xml', '.csv', '.po', '.pot', '.srt', '.vtt', '.ipynb'
     ]),
     recursiveTranslation: parser.boolean(env.RECURSIVE_TRANSLATION),
     maxRecursiveDepth: parser.number(env.MAX_RECURSIVE_DEPTH, 0),
@@ -131,6 +219,79 @@ export function loadConfig(): Config {
     openOutputDir: parser.boolean(env.OPEN_OUTPUT_DIR),
     maxFileSize: parser.number(env.MAX_FILE_SIZE, 10),
 
+    // 分段设置
+    maxChunkTokens: parser.number(env.MAX_CHUNK_TOKENS, 2000),
+    tokenizer: (env.TOKENIZER?.trim().toLowerCase() || 'auto') as Config['tokenizer'],
+    chunkContextSize: parser.number(env.CHUNK_CONTEXT_SIZE, 500),
+
+    overwriteTranslations: parser.boolean(env.OVERWRITE_TRANSLATIONS),
+
+    // CSV 设置
+    csv: {
+      columns: parser.array(env.CSV_COLUMNS),
+      delimiter: (env.CSV_DELIMITER || ',').replace(/^\\t$/, '\t'),
+      hasHeader: parser.boolean(env.CSV_HAS_HEADER, true),
+      appendColumns: parser.boolean(env.CSV_APPEND_COLUMNS),
+    },
+
+    // 字幕设置
+    subtitleMaxLineLength: parser.number(env.SUBTITLE_MAX_LINE_LENGTH, 0),
+
+    // Notebook 设置
+    notebookTranslateComments: parser.boolean(env.NOTEBOOK_TRANSLATE_COMMENTS),
+
+    // 翻译记忆库设置
+    translationMemory: {
+      enabled: parser.boolean(env.TRANSLATION_MEMORY, true),
+      path: env.TRANSLATION_MEMORY_PATH || '.translation-memory.json',
+      fuzzyThreshold: parser.number(env.TM_FUZZY_THRESHOLD, 0.75),
+      maxFuzzyMatches: parser.number(env.TM_MAX_FUZZY_MATCHES, 3),
+    },
+
+    // 本地保护规则设置
+    protectBuiltinPatterns: parser.boolean(env.PROTECT_BUILTIN_PATTERNS, true),
+
+    // 增量翻译设置
+    incremental: parser.boolean(env.INCREMENTAL_TRANSLATION, true),
+
+    // 术语表设置
+    glossary: {
+      files: parser.array(env.GLOSSARY_FILES),
+      mode: parser.oneOf('GLOSSARY_MODE', env.GLOSSARY_MODE, GLOSSARY_MODES, 'flag'),
+    },
+
+    // 审校设置
+    review: {
+      enabled: parser.boolean(env.REVIEW_ENABLED),
+      model: env.REVIEW_MODEL || '',
+      autoApply: parser.boolean(env.REVIEW_AUTO_APPLY),
+      autoApplyConfidence: parser.number(env.REVIEW_AUTO_APPLY_CONFIDENCE, 0.8),
+    },
+
+    // 回译评估设置
+    backTranslation: {
+      threshold: parser.number(env.BACK_TRANSLATION_THRESHOLD, 50),
+      judge: parser.boolean(env.BACK_TRANSLATION_JUDGE),
+      judgeThreshold: parser.number(env.BACK_TRANSLATION_JUDGE_THRESHOLD, 70),
+    },
+
+    // 译文质量检查设置
+    validation: {
+      validators: parser.array(env.VALIDATORS, [...VALIDATOR_NAMES]) as ValidatorName[],
+      policy: parser.oneOf('VALIDATION_POLICY', env.VALIDATION_POLICY, VALIDATION_POLICIES, 'warn'),
+      maxRetries: parser.number(env.VALIDATION_MAX_RETRIES, 2),
+      lengthRatioTolerance: parser.number(env.VALIDATION_LENGTH_TOLERANCE, 2.5),
+    },
+
+    // 结构化文件设置
+    htmlTranslatableAttributes: parser.array(env.HTML_TRANSLATABLE_ATTRIBUTES, [
+      'alt', 'title', 'placeholder', 'aria-label'
+    ]),
+    structuredKeys: {
+      include: parser.array(env.STRUCTURED_INCLUDE_KEYS),
+      exclude: parser.array(env.STRUCTURED_EXCLUDE_KEYS),
+    },
+
     // 内容设置
     keepOriginalContent: parser.boolean(env.KEEP_ORIGINAL_CONTENT),
     contentSeparator: env.CONTENT_SEPARATOR || '\n\n---\n\n',
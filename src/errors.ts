@@ -1,8 +1,12 @@
+import { ResponseHeaders, toResponseHeaders } from './ratelimit';
+
 export class APIError extends Error {
   constructor(
     message: string,
     public readonly code: number,
-    public readonly suggestion: string
+    public readonly suggestion: string,
+    /** 错误响应的响应头（用于限流器读取 Retry-After 和剩余额度） */
+    public readonly headers?: ResponseHeaders
   ) {
     super(message);
     this.name = 'APIError';
@@ -22,6 +26,18 @@ export const API_ERRORS = {
     message: '账号余额不足',
     suggestion: '请确认账户余额并进行充值',
   },
+  403: {
+    message: '无权访问该模型或接口',
+    suggestion: '请检查 API key 的权限，或确认账号已开通该模型',
+  },
+  404: {
+    message: '模型或接口不存在',
+    suggestion: '请检查 API_ENDPOINT 和 MODEL_NAME；Azure OpenAI 请检查 AZURE_DEPLOYMENT，Ollama 请先执行 ollama pull 下载模型',
+  },
+  413: {
+    message: '请求体过大',
+    suggestion: '请调小 MAX_CHUNK_TOKENS 或 CHUNK_CONTEXT_SIZE',
+  },
   422: {
     message: '请求体参数错误',
     suggestion: '请检查请求参数是否符合要求',
@@ -63,6 +79,58 @@ export const FILE_ERRORS = {
   },
 } as const;
 
+export const FORMAT_ERRORS = {
+  PLACEHOLDER_LOST: {
+    message: '译文中丢失了受保护内容的占位符',
+    suggestion: '请重试，或调小 MAX_CHUNK_TOKENS 以降低模型遗漏占位符的概率',
+  },
+  BATCH_MISMATCH: {
+    message: '批量翻译结果与原文条目不一致',
+    suggestion: '模型未按要求返回 JSON，请重试或更换模型',
+  },
+  INVALID_OUTPUT: {
+    message: '翻译后的文件格式无效',
+    suggestion: '请检查原文件格式是否正确，或重试翻译',
+  },
+  PARSE_FAILED: {
+    message: '文件解析失败',
+    suggestion: '请检查文件格式是否正确',
+  },
+  XLIFF_SOURCE_CHANGED: {
+    message: 'XLIFF 中的原文与源文件不一致',
+    suggestion: '源文件在导出 XLIFF 后被修改过，或分段设置（MAX_CHUNK_TOKENS）与导出时不同，请重新导出',
+  },
+} as const;
+
+export const PROVIDER_ERRORS = {
+  UNSUPPORTED: {
+    message: '不支持的模型提供商',
+    suggestion: 'PROVIDER 可选：openai、anthropic、azure、ollama',
+  },
+  CONTENT_FILTERED: {
+    message: '请求被内容过滤拦截',
+    suggestion: '原文触发了提供商的内容过滤，请检查原文或更换模型',
+  },
+} as const;
+
+export const RUN_ERRORS = {
+  INTERRUPTED: {
+    message: '翻译已中断',
+    suggestion: '已完成的文件和分段已记录，使用 --resume 从中断处继续',
+  },
+  NO_JOURNAL: {
+    message: '没有可继续的翻译任务',
+    suggestion: '输出目录中没有运行记录（上次翻译已全部完成或从未开始），请去掉 --resume 重新翻译',
+  },
+} as const;
+
+export const VALIDATION_ERRORS = {
+  FAILED: {
+    message: '译文未通过质量检查',
+    suggestion: '可将 VALIDATION_POLICY 设置为 retry 重新翻译未通过的分段，或设置为 warn 仅在报告中列出',
+  },
+} as const;
+
 export const LANGUAGE_ERRORS = {
   DETECTION_FAILED: {
     message: '语言检测失败',
@@ -78,9 +146,31 @@ export const LANGUAGE_ERRORS = {
   },
 } as const;
 
+/**
+ * 各提供商特有的状态码和错误类型对应的通用状态码
+ */
+const STATUS_ALIASES: Record<number, number> = {
+  // 网关错误和 Anthropic 的过载（529）都按服务器繁忙处理
+  502: 503,
+  504: 503,
+  529: 503,
+};
+
+const ANTHROPIC_ERROR_TYPES: Record<string, number> = {
+  invalid_request_error: 400,
+  authentication_error: 401,
+  billing_error: 402,
+  permission_error: 403,
+  not_found_error: 404,
+  request_too_large: 413,
+  rate_limit_error: 429,
+  api_error: 500,
+  overloaded_error: 503,
+};
+
 export function isRetryableError(error: any): boolean {
   if (error instanceof APIError) {
-    // 429 (速率限制)、500 (服务器错误)、503 (服务器繁忙) 可以重试
+    // 429 (速率限制)、500 (服务器错误)、503 (服务器繁忙，含网关错误和过载) 可以重试
     return [429, 500, 503].includes(error.code);
   }
   // 网络错误也可以重试
@@ -89,22 +179,44 @@ export function isRetryableError(error: any): boolean {
          error.code === 'ECONNREFUSED';
 }
 
+/**
+ * 将各提供商的错误转换为 APIError：
+ * openai SDK（OpenAI 兼容接口、Azure OpenAI）的状态码在 error.status，
+ * axios（Anthropic、Ollama）的状态码在 error.response.status，
+ * Anthropic 流式响应中途的错误只有错误类型（error.error.type）
+ */
 export function handleAPIError(error: any): APIError {
-  if (error.response) {
-    const statusCode = error.response.status;
+  if (error instanceof APIError) {
+    return error;
+  }
+
+  // Azure OpenAI 的内容过滤以 400 返回
+  if (error.code === 'content_filter' || error.error?.code === 'content_filter') {
+    return new APIError(
+      PROVIDER_ERRORS.CONTENT_FILTERED.message,
+      -1,
+      PROVIDER_ERRORS.CONTENT_FILTERED.suggestion
+    );
+  }
+
+  const rawStatus = error.response?.status ?? error.status ?? ANTHROPIC_ERROR_TYPES[error.error?.type];
+  if (typeof rawStatus === 'number') {
+    const statusCode = STATUS_ALIASES[rawStatus] ?? rawStatus;
     const errorInfo = API_ERRORS[statusCode as keyof typeof API_ERRORS];
 
     if (errorInfo) {
       return new APIError(
         errorInfo.message,
         statusCode,
-        errorInfo.suggestion
+        errorInfo.suggestion,
+        toResponseHeaders(error.headers ?? error.response?.headers)
       );
     }
   }
 
-  // 处理网络错误
-  if (error.code === 'ECONNRESET') {
+  // 处理网络错误（openai SDK 的连接错误在 cause 中）
+  const code = error.code ?? error.cause?.code;
+  if (code === 'ECONNRESET') {
     return new APIError(
       '连接被重置',
       -1,
@@ -112,7 +224,7 @@ export function handleAPIError(error: any): APIError {
     );
   }
 
-  if (error.code === 'ETIMEDOUT') {
+  if (code === 'ETIMEDOUT') {
     return new APIError(
       '请求超时',
       -1,
@@ -120,7 +232,7 @@ export function handleAPIError(error: any): APIError {
     );
   }
 
-  if (error.code === 'ECONNREFUSED') {
+  if (code === 'ECONNREFUSED') {
     return new APIError(
       '连接被拒绝',
       -1,
@@ -145,9 +257,11 @@ export function handleAPIError(error: any): APIError {
     );
   }
 
-  // 未知错误
+  // 未知错误，优先使用提供商返回的错误说明（Anthropic 为 {error: {message}}，Ollama 为 {error: "..."}）
+  const body = error.response?.data?.error;
+  const detail = typeof body === 'string' ? body : body?.message;
   return new APIError(
-    error.message || '未知错误',
+    detail || error.message || '未知错误',
     -1,
     '请检查日志并联系支持'
   );
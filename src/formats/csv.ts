@@ -0,0 +1,195 @@
+import { Config, FormatHandler, ParsedDocument, Segment, TranslationOptions } from '../types';
+import { APIError, FORMAT_ERRORS } from '../errors';
+import { isTranslatableText } from '../utils';
+
+export interface CsvField {
+  /** 解码后的值 */
+  value: string;
+  /** 原文中的写法（含引号） */
+  raw: string;
+}
+
+export interface CsvRow {
+  fields: CsvField[];
+  /** 行结束符（最后一行可能为空） */
+  terminator: string;
+}
+
+/**
+ * 按 RFC 4180 解析所有行，保留字段原文和行结束符
+ */
+export function parseCsvRows(content: string, delimiter: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let fields: CsvField[] = [];
+  let i = 0;
+
+  while (i <= content.length) {
+    // 解析一个字段
+    let value = '';
+    const start = i;
+    if (content[i] === '"') {
+      i++;
+      while (true) {
+        if (i >= content.length) {
+          throw new APIError(FORMAT_ERRORS.PARSE_FAILED.message, -1, `${FORMAT_ERRORS.PARSE_FAILED.suggestion}（CSV 引号未闭合）`);
+        }
+        if (content[i] === '"') {
+          if (content[i + 1] === '"') {
+            value += '"';
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        value += content[i++];
+      }
+    } else {
+      while (i < content.length && content[i] !== delimiter && content[i] !== '\n' && content[i] !== '\r') {
+        value += content[i++];
+      }
+    }
+    fields.push({ value, raw: content.slice(start, i) });
+
+    // 字段之后：分隔符、行结束或文件结束
+    if (content[i] === delimiter) {
+      i++;
+      continue;
+    }
+
+    const terminator = content.startsWith('\r\n', i) ? '\r\n' : (content[i] === '\n' || content[i] === '\r') ? content[i] : '';
+    if (!terminator && i < content.length) {
+      throw new APIError(FORMAT_ERRORS.PARSE_FAILED.message, -1, `${FORMAT_ERRORS.PARSE_FAILED.suggestion}（CSV 第 ${rows.length + 1} 行引号后有多余字符）`);
+    }
+    i += terminator.length;
+
+    // 文件末尾的空行不算作数据行
+    const isTrailingEmpty = !terminator && fields.length === 1 && !fields[0].raw;
+    if (!isTrailingEmpty) {
+      rows.push({ fields, terminator });
+    }
+    fields = [];
+
+    if (i >= content.length) break;
+  }
+
+  return rows;
+}
+
+/**
+ * CSV 处理器：按 RFC 4180 解析，只翻译指定列，可将译文写入新列
+ */
+export class CsvHandler implements FormatHandler {
+  public name = 'csv';
+  public extensions = ['.csv'];
+  public structured = true;
+  private config: Config;
+
+  constructor(config: Config) {
+    this.config = config;
+  }
+
+  public parse(content: string, filePath: string, options: TranslationOptions): ParsedDocument {
+    const { delimiter, hasHeader, appendColumns } = this.config.csv;
+    const rows = parseCsvRows(content, delimiter);
+    const columns = this.resolveColumns(rows, hasHeader);
+    const dataStart = hasHeader ? 1 : 0;
+
+    const segments: Segment[] = [];
+    for (let r = dataStart; r < rows.length; r++) {
+      for (const c of columns) {
+        const field = rows[r].fields[c];
+        if (field && isTranslatableText(field.value)) {
+          segments.push({ id: `${r}:${c}`, text: field.value, kind: 'inline' });
+        }
+      }
+    }
+
+    return {
+      segments,
+      rebuild: translations => {
+        // 每行的预期列数：覆盖模式与原文相同，新增列模式每个翻译列多一列
+        const widths: number[] = [];
+        const output = rows.map((row, r) => {
+          const fields = row.fields.map(field => field.raw);
+
+          // 从后往前处理，插入新列时不影响前面列的下标
+          for (const c of [...columns].sort((a, b) => b - a)) {
+            const translation = translations.get(`${r}:${c}`);
+            let cell: string;
+            if (hasHeader && r === 0) {
+              cell = this.encodeField(`${row.fields[c]?.value ?? ''}_${options.languages.target}`, delimiter);
+            } else if (translation !== undefined) {
+              cell = this.encodeField(translation, delimiter);
+            } else {
+              cell = appendColumns ? '' : fields[c];
+            }
+
+            if (appendColumns) {
+              while (fields.length <= c) fields.push('');
+              fields.splice(c + 1, 0, cell);
+            } else if (!(hasHeader && r === 0) && c < fields.length) {
+              fields[c] = cell;
+            }
+          }
+
+          widths.push(fields.length);
+          return fields.join(delimiter) + row.terminator;
+        }).join('');
+
+        this.validate(output, widths, delimiter);
+        return output;
+      },
+    };
+  }
+
+  /**
+   * 将配置中的列名（或从 1 开始的列号）转换为列下标，未配置时翻译所有列
+   */
+  private resolveColumns(rows: CsvRow[], hasHeader: boolean): number[] {
+    const width = Math.max(0, ...rows.map(row => row.fields.length));
+    const configured = this.config.csv.columns;
+    if (configured.length === 0) {
+      return Array.from({ length: width }, (_, index) => index);
+    }
+
+    const header = hasHeader && rows.length > 0 ? rows[0].fields.map(field => field.value.trim()) : [];
+    return configured.map(column => {
+      const index = header.indexOf(column);
+      if (index >= 0) return index;
+      if (/^\d+$/.test(column) && Number(column) >= 1 && Number(column) <= width) return Number(column) - 1;
+      throw new APIError(
+        `CSV 中找不到列：${column}`,
+        -1,
+        hasHeader ? `可用的列：${header.join(', ')}` : '没有表头时请使用从 1 开始的列号'
+      );
+    });
+  }
+
+  /**
+   * 按需为字段加引号
+   */
+  private encodeField(value: string, delimiter: string): string {
+    if (value.includes(delimiter) || /["\r\n]/.test(value) || value !== value.trim()) {
+      return `"${value.replace(/"/g, '""')}"`;
+    }
+    return value;
+  }
+
+  /**
+   * 重新解析输出，校验行数和每行列数与预期一致
+   */
+  private validate(output: string, widths: number[], delimiter: string): void {
+    const outputRows = parseCsvRows(output, delimiter);
+    const mismatch = outputRows.length !== widths.length ||
+      outputRows.some((row, index) => row.fields.length !== widths[index]);
+
+    if (mismatch) {
+      throw new APIError(
+        FORMAT_ERRORS.INVALID_OUTPUT.message,
+        -1,
+        `${FORMAT_ERRORS.INVALID_OUTPUT.suggestion}（CSV 行数或列数与原文不一致）`
+      );
+    }
+  }
+}
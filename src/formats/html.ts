@@ -0,0 +1,195 @@
+import path from 'path';
+import { Parser } from 'htmlparser2';
+import { Config, FormatHandler, ParsedDocument, Segment, TranslationOptions } from '../types';
+import { isTranslatableText } from '../utils';
+
+interface Edit {
+  start: number;
+  end: number;
+  /** 对应的段落 ID，为空时直接使用 replacement */
+  segmentId?: string;
+  /** 固定的替换内容 */
+  replacement?: string;
+  /** 文本节点前后的空白 */
+  prefix?: string;
+  suffix?: string;
+  /** 属性值的引号（文本节点为空） */
+  quote?: string;
+}
+
+/**
+ * 内容不需要翻译的元素
+ */
+const SKIP_TAGS = ['script', 'style', 'code', 'pre'];
+
+/**
+ * 开始标签中的属性
+ */
+const ATTRIBUTE_PATTERN = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+/**
+ * HTML / XML 处理器：只翻译文本节点和允许的属性，标签和其余属性原样保留
+ */
+export class HtmlHandler implements FormatHandler {
+  public name = 'html';
+  public extensions = ['.html', '.htm', '.xml'];
+  public structured = true;
+  private config: Config;
+
+  constructor(config: Config) {
+    this.config = config;
+  }
+
+  public parse(content: string, filePath: string, options: TranslationOptions): ParsedDocument {
+    const xmlMode = path.extname(filePath).toLowerCase() === '.xml';
+    const attributes = this.config.htmlTranslatableAttributes.map(name => name.toLowerCase());
+    const segments: Segment[] = [];
+    const edits: Edit[] = [];
+    const skipStack: boolean[] = [];
+    let pendingText: { start: number; end: number; text: string } | null = null;
+
+    const flushText = () => {
+      if (!pendingText) return;
+      const { start, end, text } = pendingText;
+      pendingText = null;
+      if (skipStack[skipStack.length - 1] || !isTranslatableText(text)) return;
+
+      const [, prefix, core, suffix] = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+      const id = `text-${segments.length}`;
+      segments.push({ id, text: core, kind: 'inline' });
+      edits.push({ start, end, segmentId: id, prefix, suffix });
+    };
+
+    const parser = new Parser({
+      onopentag: (name, attribs) => {
+        flushText();
+        const start = parser.startIndex;
+        const raw = content.slice(start, parser.endIndex + 1);
+        const skip = !!skipStack[skipStack.length - 1] ||
+          (!xmlMode && SKIP_TAGS.includes(name.toLowerCase())) ||
+          attribs.translate === 'no';
+        skipStack.push(skip);
+
+        if (!skip) {
+          this.collectAttributes(raw, start, attribs, attributes, segments, edits);
+        }
+        if (!xmlMode && name.toLowerCase() === 'html') {
+          edits.push(this.createLangEdit(raw, start, options.languages.target));
+        }
+      },
+      ontext: text => {
+        const start = parser.startIndex;
+        const end = parser.endIndex + 1;
+        // 实体会被拆成多个文本事件，相邻的合并为一个文本节点
+        if (pendingText && pendingText.end === start) {
+          pendingText.end = end;
+          pendingText.text += text;
+        } else {
+          flushText();
+          pendingText = { start, end, text };
+        }
+      },
+      onclosetag: () => {
+        flushText();
+        skipStack.pop();
+      },
+      oncomment: flushText,
+      onprocessinginstruction: flushText,
+    }, {
+      xmlMode,
+      decodeEntities: true,
+      lowerCaseAttributeNames: !xmlMode,
+    });
+    parser.end(content);
+    flushText();
+
+    return {
+      segments,
+      rebuild: translations => {
+        let output = content;
+        for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+          const replacement = this.renderEdit(edit, translations);
+          if (replacement === null) continue;
+          output = output.slice(0, edit.start) + replacement + output.slice(edit.end);
+        }
+        return output;
+      },
+      insertMetadata: (output, metadata) => {
+        // 元数据注释放在 XML 声明和 DOCTYPE 之后
+        const match = output.match(/^\s*(<\?xml[^>]*\?>\s*)?(<!DOCTYPE[^>]*>\s*)?/i);
+        const index = match ? match[0].length : 0;
+        return output.slice(0, index) + metadata.comment + output.slice(index);
+      },
+    };
+  }
+
+  /**
+   * 收集开始标签中允许翻译的属性值
+   */
+  private collectAttributes(
+    raw: string,
+    offset: number,
+    attribs: Record<string, string>,
+    allowed: string[],
+    segments: Segment[],
+    edits: Edit[]
+  ): void {
+    const nameEnd = raw.search(/[\s/>]/);
+
+    for (const match of raw.slice(nameEnd).matchAll(ATTRIBUTE_PATTERN)) {
+      const name = match[1];
+      const value = attribs[name] ?? attribs[name.toLowerCase()];
+      if (!allowed.includes(name.toLowerCase()) || value === undefined || !isTranslatableText(value)) {
+        continue;
+      }
+
+      const rawValue = match[2] ?? match[3] ?? match[4];
+      if (rawValue === undefined) continue;
+
+      const quote = match[2] !== undefined ? '"' : match[3] !== undefined ? '\'' : '';
+      const valueStart = offset + nameEnd + match.index! + match[0].length - rawValue.length - quote.length;
+      const id = `attr-${segments.length}`;
+      segments.push({ id, text: value, kind: 'inline' });
+      edits.push({
+        start: quote ? valueStart - 1 : valueStart,
+        end: valueStart + rawValue.length + quote.length,
+        segmentId: id,
+        quote: quote || '"',
+      });
+    }
+  }
+
+  /**
+   * 将 <html> 的 lang 属性更新为目标语言，没有时添加
+   */
+  private createLangEdit(raw: string, offset: number, target: string): Edit {
+    const match = raw.match(/(\slang\s*=\s*)("[^"]*"|'[^']*'|[^\s"'=<>`]+)/i);
+    if (match) {
+      const start = offset + match.index! + match[1].length;
+      return { start, end: start + match[2].length, replacement: `"${target}"` };
+    }
+
+    const start = offset + raw.search(/[\s/>]/);
+    return { start, end: start, replacement: ` lang="${target}"` };
+  }
+
+  /**
+   * 生成替换内容，并按所在位置转义；没有译文时返回 null 保留原文
+   */
+  private renderEdit(edit: Edit, translations: Map<string, string>): string | null {
+    if (!edit.segmentId) {
+      return edit.replacement ?? '';
+    }
+
+    const translation = translations.get(edit.segmentId);
+    if (translation === undefined) return null;
+    const escaped = translation.replace(/&/g, '&amp;');
+
+    if (edit.quote) {
+      const entity = edit.quote === '"' ? '&quot;' : '&#39;';
+      return `${edit.quote}${escaped.replace(/</g, '&lt;').split(edit.quote).join(entity)}${edit.quote}`;
+    }
+
+    return `${edit.prefix}${escaped.replace(/</g, '&lt;').replace(/>/g, '&gt;')}${edit.suffix}`;
+  }
+}
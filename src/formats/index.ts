@@ -0,0 +1,40 @@
+import path from 'path';
+import { Config, FormatHandler, TranslationOptions } from '../types';
+import { TextHandler } from './text';
+import { MarkdownHandler } from './markdown';
+import { JsonHandler } from './json';
+import { YamlHandler } from './yaml';
+import { HtmlHandler } from './html';
+import { CsvHandler } from './csv';
+import { PoHandler } from './po';
+import { SubtitleHandler } from './subtitle';
+import { LocaleBundleHandler } from './locale';
+import { NotebookHandler } from './notebook';
+
+/**
+ * 创建所有格式处理器
+ */
+export function createFormatHandlers(config: Config): FormatHandler[] {
+  return [
+    new LocaleBundleHandler(config),
+    new MarkdownHandler(),
+    new JsonHandler(config),
+    new YamlHandler(config),
+    new HtmlHandler(config),
+    new CsvHandler(config),
+    new PoHandler(config),
+    new SubtitleHandler(config),
+    new NotebookHandler(config),
+  ];
+}
+
+/**
+ * 根据文件扩展名选择格式处理器，未匹配时按纯文本处理
+ * 语言包模式下优先使用语言包处理器
+ */
+export function getFormatHandler(handlers: FormatHandler[], filePath: string, options: TranslationOptions): FormatHandler {
+  const ext = path.extname(filePath).toLowerCase();
+  return handlers.find(handler =>
+    handler.extensions.includes(ext) && (!handler.localeBundle || options.localeBundle)
+  ) || new TextHandler();
+}
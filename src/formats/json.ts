@@ -0,0 +1,76 @@
+import { parseTree, parse, getNodePath, Node, ParseError } from 'jsonc-parser';
+import { Config, FormatHandler, ParsedDocument, Segment } from '../types';
+import { APIError, FORMAT_ERRORS } from '../errors';
+import { isKeyPathIncluded, isTranslatableText } from '../utils';
+
+/**
+ * JSON 处理器：只翻译字符串值，键名、顺序和格式保持不变
+ */
+export class JsonHandler implements FormatHandler {
+  public name = 'json';
+  public extensions = ['.json'];
+  public structured = true;
+  private config: Config;
+
+  constructor(config: Config) {
+    this.config = config;
+  }
+
+  public parse(content: string): ParsedDocument {
+    const errors: ParseError[] = [];
+    const root = parseTree(content, errors, { allowTrailingComma: true });
+    if (!root || errors.length > 0) {
+      throw new APIError(FORMAT_ERRORS.PARSE_FAILED.message, -1, FORMAT_ERRORS.PARSE_FAILED.suggestion);
+    }
+
+    const nodes = this.collectStrings(root);
+    const segments: Segment[] = nodes.map(({ path, node }) => ({
+      id: path,
+      text: node.value,
+      kind: 'inline',
+    }));
+
+    return {
+      segments,
+      rebuild: translations => {
+        // 从后往前替换，保证前面的偏移量不变
+        let output = content;
+        for (const { path, node } of [...nodes].reverse()) {
+          const translation = translations.get(path);
+          if (translation === undefined) continue;
+          output = output.slice(0, node.offset) + JSON.stringify(translation) + output.slice(node.offset + node.length);
+        }
+
+        const outputErrors: ParseError[] = [];
+        parse(output, outputErrors, { allowTrailingComma: true });
+        if (outputErrors.length > 0) {
+          throw new APIError(FORMAT_ERRORS.INVALID_OUTPUT.message, -1, FORMAT_ERRORS.INVALID_OUTPUT.suggestion);
+        }
+        return output;
+      },
+    };
+  }
+
+  /**
+   * 收集需要翻译的字符串值及其键路径
+   */
+  private collectStrings(root: Node): Array<{ path: string; node: Node }> {
+    const result: Array<{ path: string; node: Node }> = [];
+
+    const visit = (node: Node) => {
+      if (node.type === 'string') {
+        // 属性的键名也是 string 节点，跳过
+        const isKey = node.parent?.type === 'property' && node.parent.children?.[0] === node;
+        const nodePath = getNodePath(node);
+        // 分段编号使用 JSON 形式的键路径，避免键名中的 . 与嵌套路径混淆；点分形式只用于匹配键路径规则
+        if (!isKey && isTranslatableText(node.value) && isKeyPathIncluded(nodePath.join('.'), this.config.structuredKeys)) {
+          result.push({ path: JSON.stringify(nodePath), node });
+        }
+      }
+      node.children?.forEach(visit);
+    };
+
+    visit(root);
+    return result;
+  }
+}
@@ -0,0 +1,358 @@
+import { parseTree, parse, findNodeAtLocation, modify, applyEdits, Node, ParseError, JSONPath } from 'jsonc-parser';
+import { Config, FormatHandler, ParsedDocument, Segment, TranslationOptions } from '../types';
+import { APIError, FORMAT_ERRORS } from '../errors';
+import { PlaceholderMap, PLACEHOLDER_PROMPT } from '../placeholders';
+import { isKeyPathIncluded, isTranslatableText, logger } from '../utils';
+
+interface MessagePiece {
+  text: string;
+  /** 是否为插值、标签或 ICU 语法等不可翻译的部分 */
+  protected: boolean;
+}
+
+interface Message {
+  path: JSONPath;
+  value: string;
+  placeholders: PlaceholderMap;
+}
+
+/**
+ * 插值写法：i18next 的 {{count}}、printf 风格的 %s / %1$d / %(name)s、vue-i18n 的链接消息 @:key
+ */
+const INTERPOLATION_PATTERN = /^(?:\{\{[^{}]*\}\}|%(?:\d+\$)?[-+ 0#]*\d*(?:\.\d+)?[sdifoxXeEgGcj@]|%\([\w.-]+\)[sdif]|@(?:\.\w+)?:(?:[\w.-]+|\([\w.-]+\)))/;
+
+/**
+ * 标签写法：react-i18next 的 <0>…</0>、<1/> 以及普通 HTML 标签
+ */
+const TAG_PATTERN = /^<\/?[A-Za-z0-9][\w.-]*(?:\s[^<>]*)?\/?>/;
+
+/**
+ * ICU 参数开头，如 {name}、{count, number}、{count, plural,
+ */
+const ARGUMENT_PATTERN = /^\{\s*([\w.$-]+)\s*(?:,\s*(\w+)\s*(,\s*)?)?/;
+
+/**
+ * ICU 复数 / 选择分支的选择器，如 one {、=0 {、offset:1
+ */
+const SELECTOR_PATTERN = /^\s*(?:offset:\s*\d+\s+)?(=?[\w-]+)\s*\{/;
+
+/**
+ * 将消息拆分为可翻译文本和受保护部分（插值、标签、ICU 语法）
+ */
+export function tokenizeMessage(message: string): MessagePiece[] {
+  const pieces: MessagePiece[] = [];
+  const push = (text: string, isProtected: boolean) => pieces.push({ text, protected: isProtected });
+
+  const parseMessage = (index: number, inPlural: boolean, nested: boolean): number => {
+    while (index < message.length) {
+      const rest = message.slice(index);
+      const char = message[index];
+
+      if (nested && char === '}') {
+        return index;
+      }
+
+      const interpolation = rest.match(INTERPOLATION_PATTERN) || rest.match(TAG_PATTERN);
+      if (interpolation) {
+        push(interpolation[0], true);
+        index += interpolation[0].length;
+        continue;
+      }
+
+      if (char === '{') {
+        const argument = rest.match(ARGUMENT_PATTERN);
+        if (argument) {
+          index = parseArgument(index, argument);
+          continue;
+        }
+      }
+
+      if (inPlural && char === '#') {
+        push('#', true);
+        index++;
+        continue;
+      }
+
+      push(char, false);
+      index++;
+    }
+    return index;
+  };
+
+  const parseArgument = (index: number, argument: RegExpMatchArray): number => {
+    const type = argument[2];
+
+    if (type === 'plural' || type === 'selectordinal' || type === 'select') {
+      // 分支语法受保护，分支内的消息继续拆分
+      push(argument[0], true);
+      index += argument[0].length;
+
+      while (index < message.length) {
+        const selector = message.slice(index).match(SELECTOR_PATTERN);
+        if (!selector) break;
+        push(selector[0], true);
+        index = parseMessage(index + selector[0].length, type !== 'select', true);
+        if (message[index] !== '}') return index;
+        push('}', true);
+        index++;
+      }
+
+      const end = message.slice(index).match(/^\s*\}/);
+      if (end) {
+        push(end[0], true);
+        index += end[0].length;
+      }
+      return index;
+    }
+
+    // 普通参数整体受保护（包括 {date, date, short} 等格式）
+    let depth = 0;
+    let end = index;
+    while (end < message.length) {
+      if (message[end] === '{') depth++;
+      if (message[end] === '}' && --depth === 0) break;
+      end++;
+    }
+    push(message.slice(index, end + 1), true);
+    return end + 1;
+  };
+
+  parseMessage(0, false, false);
+
+  // 合并相邻的文本片段
+  return pieces.reduce<MessagePiece[]>((merged, piece) => {
+    const last = merged[merged.length - 1];
+    if (last && !last.protected && !piece.protected) {
+      last.text += piece.text;
+    } else {
+      merged.push({ ...piece });
+    }
+    return merged;
+  }, []);
+}
+
+/**
+ * 消息中受保护部分的签名，用于比较原文和译文的占位符集合
+ */
+function placeholderSignature(message: string): string {
+  return tokenizeMessage(message)
+    .filter(piece => piece.protected)
+    .map(piece => piece.text.trim())
+    .sort()
+    .join('\u0000');
+}
+
+/**
+ * 语言包处理器（i18next / vue-i18n / ICU 风格的 JSON）：
+ * 保护插值和 ICU 语法，校验译文占位符与原文一致，已有目标语言包时只补充缺失的键
+ */
+export class LocaleBundleHandler implements FormatHandler {
+  public name = 'locale';
+  public extensions = ['.json'];
+  public structured = true;
+  public localeBundle = true;
+  public prompt = [
+    PLACEHOLDER_PROMPT,
+    '这些是界面文案，请保持简洁，与界面用语习惯一致。',
+    '文本中的 | 用于分隔复数形式，请保留相同数量的分隔符。',
+  ].join('\n');
+  private config: Config;
+
+  constructor(config: Config) {
+    this.config = config;
+  }
+
+  public parse(content: string, filePath: string, options: TranslationOptions, existingTranslation?: string): ParsedDocument {
+    const root = this.parseBundle(content);
+    const existingRoot = existingTranslation !== undefined ? this.parseBundle(existingTranslation) : undefined;
+    const sourceOrder = this.collectKeyOrder(root);
+
+    // 已有目标语言包时只翻译缺失或为空的消息
+    const messages = this.collectMessages(root).filter(message => {
+      if (!existingRoot || this.config.overwriteTranslations) return true;
+      const existing = findNodeAtLocation(existingRoot, message.path);
+      return !(existing?.type === 'string' && existing.value);
+    });
+
+    const segments: Segment[] = [];
+    // 不含可翻译文本的消息（如只有 {count}）补充到已有语言包时直接复制原文
+    const copied = new Set<string>();
+    for (const message of messages) {
+      const pieces = tokenizeMessage(message.value);
+      const text = pieces.filter(piece => !piece.protected).map(piece => piece.text).join('');
+      if (!isTranslatableText(text)) {
+        copied.add(JSON.stringify(message.path));
+        continue;
+      }
+
+      // 相邻的受保护部分合并为一个占位符
+      let masked = '';
+      let pending = '';
+      for (const piece of pieces) {
+        if (piece.protected) {
+          pending += piece.text;
+          continue;
+        }
+        if (pending) masked += message.placeholders.add(pending);
+        pending = '';
+        masked += piece.text;
+      }
+      if (pending) masked += message.placeholders.add(pending);
+      segments.push({ id: JSON.stringify(message.path), text: masked, kind: 'inline' });
+    }
+
+    return {
+      segments,
+      rebuild: translations => {
+        let output = existingTranslation ?? content;
+        const formattingOptions = this.detectFormatting(output);
+        const invalid: string[] = [];
+
+        for (const message of messages) {
+          const id = JSON.stringify(message.path);
+          const translation = translations.get(id) ??
+            (existingTranslation !== undefined && copied.has(id) ? message.value : undefined);
+          if (translation === undefined) continue;
+
+          const restored = this.restoreMessage(message, translation);
+          if (restored === undefined) {
+            invalid.push(message.path.join('.'));
+            // 占位符不一致的消息不写入，运行时回退到源语言，下次运行会重新翻译
+            // 以源语言包为基础输出时删除该键（数组元素保留原文，避免下标错位）
+            if (existingTranslation !== undefined || typeof message.path[message.path.length - 1] === 'number') {
+              continue;
+            }
+          }
+
+          const base = output;
+          output = applyEdits(base, modify(base, message.path, restored, {
+            formattingOptions,
+            getInsertionIndex: properties => this.getInsertionIndex(base, message.path, properties, sourceOrder),
+          }));
+        }
+
+        if (invalid.length > 0) {
+          logger.warn(`以下消息的译文占位符与原文不一致，已跳过：${invalid.join(', ')}`);
+        }
+
+        const outputErrors: ParseError[] = [];
+        parse(output, outputErrors, { allowTrailingComma: true });
+        if (outputErrors.length > 0) {
+          throw new APIError(FORMAT_ERRORS.INVALID_OUTPUT.message, -1, FORMAT_ERRORS.INVALID_OUTPUT.suggestion);
+        }
+        return output;
+      },
+    };
+  }
+
+  /**
+   * 解析语言包，根节点必须是对象或数组
+   */
+  private parseBundle(content: string): Node {
+    const errors: ParseError[] = [];
+    const root = parseTree(content, errors, { allowTrailingComma: true });
+    if (!root || errors.length > 0 || (root.type !== 'object' && root.type !== 'array')) {
+      throw new APIError(FORMAT_ERRORS.PARSE_FAILED.message, -1, FORMAT_ERRORS.PARSE_FAILED.suggestion);
+    }
+    return root;
+  }
+
+  /**
+   * 还原占位符并校验与原文完全一致，不一致时返回 undefined
+   */
+  private restoreMessage(message: Message, translation: string): string | undefined {
+    const { missing, duplicated } = message.placeholders.check(translation);
+    if (missing.length > 0 || duplicated.length > 0) return undefined;
+
+    const restored = message.placeholders.restore(translation);
+    return placeholderSignature(restored) === placeholderSignature(message.value) ? restored : undefined;
+  }
+
+  /**
+   * 收集所有字符串消息及其路径
+   */
+  private collectMessages(root: Node): Message[] {
+    const messages: Message[] = [];
+
+    const visit = (node: Node, path: JSONPath) => {
+      if (node.type === 'object') {
+        for (const property of node.children ?? []) {
+          const [key, value] = property.children ?? [];
+          if (key && value) visit(value, [...path, key.value]);
+        }
+      } else if (node.type === 'array') {
+        node.children?.forEach((child, index) => visit(child, [...path, index]));
+      } else if (node.type === 'string' && isKeyPathIncluded(path.join('.'), this.config.structuredKeys)) {
+        messages.push({ path, value: node.value, placeholders: new PlaceholderMap() });
+      }
+    };
+
+    visit(root, []);
+    return messages;
+  }
+
+  /**
+   * 记录源语言包中每个对象的键顺序
+   */
+  private collectKeyOrder(root: Node): Map<string, string[]> {
+    const order = new Map<string, string[]>();
+
+    const visit = (node: Node, path: JSONPath) => {
+      if (node.type === 'object') {
+        const keys: string[] = [];
+        for (const property of node.children ?? []) {
+          const [key, value] = property.children ?? [];
+          if (!key || !value) continue;
+          keys.push(key.value);
+          visit(value, [...path, key.value]);
+        }
+        order.set(JSON.stringify(path), keys);
+      } else if (node.type === 'array') {
+        node.children?.forEach((child, index) => visit(child, [...path, index]));
+      }
+    };
+
+    visit(root, []);
+    return order;
+  }
+
+  /**
+   * 新增的键插入到源语言包中排在它前面的最后一个已有键之后
+   */
+  private getInsertionIndex(
+    output: string,
+    path: JSONPath,
+    properties: string[],
+    sourceOrder: Map<string, string[]>
+  ): number {
+    // 缺少中间对象时，jsonc-parser 在最深的已有对象中插入，需找到对应的层级
+    const root = parseTree(output);
+    let depth = path.length - 1;
+    while (depth > 0 && (!root || findNodeAtLocation(root, path.slice(0, depth))?.type !== 'object')) {
+      depth--;
+    }
+
+    const keys = sourceOrder.get(JSON.stringify(path.slice(0, depth)));
+    const position = keys?.indexOf(String(path[depth])) ?? -1;
+    if (!keys || position < 0) return properties.length;
+
+    let index = 0;
+    properties.forEach((property, propertyIndex) => {
+      const propertyPosition = keys.indexOf(property);
+      if (propertyPosition >= 0 && propertyPosition < position) index = propertyIndex + 1;
+    });
+    return index;
+  }
+
+  /**
+   * 检测文件的缩进和换行风格，新插入的键保持一致
+   */
+  private detectFormatting(content: string): { insertSpaces: boolean; tabSize: number; eol: string } {
+    const indent = content.match(/^[ \t]+(?=")/m)?.[0] ?? '  ';
+    return {
+      insertSpaces: !indent.startsWith('\t'),
+      tabSize: indent.startsWith('\t') ? 1 : indent.length,
+      eol: content.includes('\r\n') ? '\r\n' : '\n',
+    };
+  }
+}
@@ -0,0 +1,256 @@
+import path from 'path';
+import { Lexer, Token, Tokens } from 'marked';
+import { FormatHandler, ParsedDocument, TranslationOptions } from '../types';
+import { PlaceholderMap, PLACEHOLDER_PROMPT } from '../placeholders';
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+/**
+ * 词法单元，或没有 raw 的表格单元格
+ */
+type MarkdownNode = Token | Tokens.TableCell;
+
+interface CollectContext {
+  source: string;
+  isMdx: boolean;
+  spans: Span[];
+}
+
+/**
+ * HTML/JSX 标签和注释
+ */
+const TAG_PATTERN = /<!--[\s\S]*?-->|<\/?[A-Za-z][\w.:-]*(?:\s[^<>]*)?\/?>/g;
+
+/**
+ * MDX 表达式，例如 {props.title}
+ */
+const MDX_EXPRESSION_PATTERN = /\{[^{}\n]*\}/g;
+
+/**
+ * 链接引用定义，例如 [id]: https://example.com "title"
+ */
+const LINK_DEFINITION_PATTERN = /^ {0,3}\[[^\]\n]+\]:[ \t]*\S.*$/gm;
+
+/**
+ * Markdown / MDX 处理器：在翻译前将代码、链接地址、HTML 标签、MDX 语法和 front matter 键名替换为占位符
+ */
+export class MarkdownHandler implements FormatHandler {
+  public name = 'markdown';
+  public extensions = ['.md', '.mdx'];
+  public prompt = PLACEHOLDER_PROMPT;
+
+  public parse(content: string, filePath: string, options: TranslationOptions): ParsedDocument {
+    // marked 会将换行统一为 \n，这里先统一，重建时再还原
+    const crlf = content.includes('\r\n');
+    const source = crlf ? content.replace(/\r\n/g, '\n') : content;
+    const isMdx = path.extname(filePath).toLowerCase() === '.mdx';
+
+    const frontMatter = this.findFrontMatter(source);
+    const spans: Span[] = frontMatter ? this.collectFrontMatterSpans(source, frontMatter) : [];
+    const bodyStart = frontMatter ? frontMatter.end : 0;
+    const body = source.slice(bodyStart);
+
+    const tokens = new Lexer({ gfm: true }).lex(body);
+    const bodySpans: Span[] = [];
+    this.collectTokenSpans(tokens, 0, { source: body, isMdx, spans: bodySpans });
+    this.collectPatternSpans(body, LINK_DEFINITION_PATTERN, bodySpans);
+    if (isMdx) {
+      this.collectEsmSpans(tokens, body, bodySpans);
+    }
+    spans.push(...bodySpans.map(span => ({ start: span.start + bodyStart, end: span.end + bodyStart })));
+
+    const placeholders = new PlaceholderMap();
+    const protectedText = this.applySpans(source, spans, placeholders);
+
+    return {
+      segments: [{ id: 'content', text: protectedText, kind: 'block' }],
+      rebuild: translations => {
+        const restored = placeholders.restore(translations.get('content') ?? '');
+        return crlf ? restored.replace(/\n/g, '\r\n') : restored;
+      },
+      restore: (_, text) => placeholders.restore(text, false),
+      insertMetadata: (output, metadata) => {
+        // 元数据注释放在 front matter 之后，避免破坏 front matter
+        const match = output.match(/^(---|\+\+\+)\r?\n[\s\S]*?\r?\n\1[ \t]*(\r?\n|$)/);
+        if (!match) return metadata.comment + output;
+        return output.slice(0, match[0].length) + metadata.comment + output.slice(match[0].length);
+      },
+    };
+  }
+
+  /**
+   * 查找文件开头的 YAML（---）或 TOML（+++）front matter
+   */
+  private findFrontMatter(source: string): Span | null {
+    const match = source.match(/^(---|\+\+\+)\n[\s\S]*?\n\1[ \t]*(\n|$)/);
+    return match ? { start: 0, end: match[0].length } : null;
+  }
+
+  /**
+   * front matter 中保护分隔符、键名以及非文本的值
+   */
+  private collectFrontMatterSpans(source: string, frontMatter: Span): Span[] {
+    const spans: Span[] = [];
+    const lines = source.slice(0, frontMatter.end).match(/[^\n]*\n|[^\n]+$/g) || [];
+    let offset = 0;
+
+    lines.forEach((line, index) => {
+      const text = line.replace(/\n$/, '');
+      if (index === 0 || index === lines.length - 1) {
+        spans.push({ start: offset, end: offset + text.length });
+      } else {
+        const match = text.match(/^(\s*(?:-\s+)?["']?[\w.-]+["']?\s*[:=])(\s*)(.*)$/);
+        if (match) {
+          const [, key, space, value] = match;
+          const protectValue = !value || !/\p{L}/u.test(value) || /^(true|false|null|~|[[{|>]|https?:\/\/)/i.test(value);
+          spans.push({ start: offset, end: offset + (protectValue ? text.length : key.length + space.length) });
+        }
+      }
+      offset += line.length;
+    });
+
+    return spans;
+  }
+
+  /**
+   * 遍历 marked 的词法单元，按原文位置收集需要保护的区间
+   */
+  private collectTokenSpans(tokens: MarkdownNode[], cursor: number, context: CollectContext): number {
+    const { source, spans } = context;
+    for (const token of tokens) {
+      // 表格单元格等没有 raw 的节点，直接处理子节点
+      if (!('raw' in token) || typeof token.raw !== 'string') {
+        cursor = this.collectTokenSpans(this.getChildren(token), cursor, context);
+        continue;
+      }
+
+      const start = source.indexOf(token.raw, cursor);
+      if (start < 0) {
+        // 列表等嵌套结构中的 raw 可能与原文缩进不一致，仍然尝试处理子节点
+        this.collectTokenSpans(this.getChildren(token), cursor, context);
+        continue;
+      }
+      const raw = token.raw;
+      const end = start + raw.length;
+
+      switch (token.type) {
+        // 代码块和行内代码始终原样保留，不交给模型
+        case 'code':
+          spans.push({ start, end: start + raw.replace(/\n+$/, '').length });
+          break;
+        case 'codespan':
+          spans.push({ start, end });
+          break;
+        case 'html':
+        case 'text': {
+          const children = token.type === 'text' ? (token as Tokens.Text).tokens : undefined;
+          if (!children) {
+            this.collectPatternSpans(raw, TAG_PATTERN, spans, start);
+            if (context.isMdx) {
+              this.collectPatternSpans(raw, MDX_EXPRESSION_PATTERN, spans, start);
+            }
+          } else {
+            this.collectTokenSpans(children, start, context);
+          }
+          break;
+        }
+        case 'link':
+        case 'image': {
+          const destination = this.findDestination(raw);
+          if (destination) {
+            spans.push({ start: start + destination.start, end: start + destination.end });
+          }
+          if (token.type === 'link' && destination?.start !== 0) {
+            this.collectTokenSpans(token.tokens || [], start, context);
+          }
+          break;
+        }
+        default:
+          this.collectTokenSpans(this.getChildren(token), start, context);
+      }
+
+      cursor = end;
+    }
+
+    return cursor;
+  }
+
+  /**
+   * 获取词法单元的子节点
+   */
+  private getChildren(token: MarkdownNode): MarkdownNode[] {
+    if ('type' in token && token.type === 'table') {
+      const table = token as Tokens.Table;
+      return [...table.header, ...table.rows.flat()];
+    }
+    if ('type' in token && token.type === 'list') {
+      return (token as Tokens.List).items;
+    }
+    return ('tokens' in token && token.tokens) || [];
+  }
+
+  /**
+   * 定位链接或图片中的地址部分（相对于 raw 的区间）
+   */
+  private findDestination(raw: string): Span | null {
+    // 自动链接：<https://...> 或裸链接
+    if (!raw.startsWith('[') && !raw.startsWith('![')) {
+      return { start: 0, end: raw.length };
+    }
+
+    // 内联链接：[text](url "title")
+    const index = raw.lastIndexOf('](');
+    if (index >= 0 && raw.endsWith(')')) {
+      return { start: index + 2, end: raw.length - 1 };
+    }
+
+    // 引用链接：[text][id]，地址在链接定义中统一保护
+    return null;
+  }
+
+  /**
+   * MDX 中顶层的 import / export 语句
+   */
+  private collectEsmSpans(tokens: Token[], source: string, spans: Span[]): void {
+    let cursor = 0;
+    for (const token of tokens) {
+      const start = source.indexOf(token.raw, cursor);
+      if (start < 0) continue;
+      if (token.type === 'paragraph' && /^(import|export)\s/.test(token.raw)) {
+        spans.push({ start, end: start + token.raw.replace(/\n+$/, '').length });
+      }
+      cursor = start + token.raw.length;
+    }
+  }
+
+  /**
+   * 按正则收集需要保护的区间
+   */
+  private collectPatternSpans(text: string, pattern: RegExp, spans: Span[], offset = 0): void {
+    for (const match of text.matchAll(pattern)) {
+      spans.push({ start: offset + match.index!, end: offset + match.index! + match[0].length });
+    }
+  }
+
+  /**
+   * 将区间替换为占位符，重叠的区间只保留最外层
+   */
+  private applySpans(source: string, spans: Span[], placeholders: PlaceholderMap): string {
+    const sorted = spans
+      .filter(span => span.end > span.start)
+      .sort((a, b) => a.start - b.start || b.end - a.end);
+
+    let result = '';
+    let cursor = 0;
+    for (const span of sorted) {
+      if (span.start < cursor) continue;
+      result += source.slice(cursor, span.start) + placeholders.add(source.slice(span.start, span.end));
+      cursor = span.end;
+    }
+
+    return result + source.slice(cursor);
+  }
+}
@@ -0,0 +1,218 @@
+import { parseTree, parse, findNodeAtLocation, Node, ParseError } from 'jsonc-parser';
+import { Config, FormatHandler, ParsedDocument, Segment, TranslationOptions } from '../types';
+import { APIError, FORMAT_ERRORS } from '../errors';
+import { isTranslatableText } from '../utils';
+import { PLACEHOLDER_PROMPT } from '../placeholders';
+import { MarkdownHandler } from './markdown';
+
+interface CellEdit {
+  /** 单元格 source 节点 */
+  node: Node;
+  /** 根据译文生成新的单元格内容，没有译文时返回 null */
+  render: (translations: Map<string, string>) => string | null;
+}
+
+/**
+ * 各内核语言的行注释符号
+ */
+const COMMENT_MARKERS: Record<string, string> = {
+  python: '#',
+  r: '#',
+  julia: '#',
+  ruby: '#',
+  bash: '#',
+  sh: '#',
+  javascript: '//',
+  typescript: '//',
+  java: '//',
+  scala: '//',
+  go: '//',
+  rust: '//',
+  'c++': '//',
+  c: '//',
+  'c#': '//',
+  kotlin: '//',
+};
+
+/**
+ * Jupyter Notebook 处理器：只翻译 markdown 单元格（可选翻译代码单元格中的注释），
+ * 代码、输出和元数据原样保留
+ */
+export class NotebookHandler implements FormatHandler {
+  public name = 'notebook';
+  public extensions = ['.ipynb'];
+  public structured = true;
+  public prompt = PLACEHOLDER_PROMPT;
+  private config: Config;
+  private markdownHandler = new MarkdownHandler();
+
+  constructor(config: Config) {
+    this.config = config;
+  }
+
+  public parse(content: string, filePath: string, options: TranslationOptions): ParsedDocument {
+    const errors: ParseError[] = [];
+    const root = parseTree(content, errors);
+    const cells = root && findNodeAtLocation(root, ['cells']);
+    if (!root || errors.length > 0 || cells?.type !== 'array') {
+      throw new APIError(FORMAT_ERRORS.PARSE_FAILED.message, -1, `${FORMAT_ERRORS.PARSE_FAILED.suggestion}（不是有效的 Notebook 文件）`);
+    }
+
+    const { metadata } = parse(content) ?? {};
+    const language = String(metadata?.kernelspec?.language ?? metadata?.language_info?.name ?? 'python').toLowerCase();
+    const commentMarker = this.config.notebookTranslateComments ? COMMENT_MARKERS[language] : undefined;
+
+    const segments: Segment[] = [];
+    const edits: CellEdit[] = [];
+    const documents = new Map<string, ParsedDocument>();
+
+    cells.children?.forEach((cell, index) => {
+      const cellType = findNodeAtLocation(cell, ['cell_type'])?.value;
+      const sourceNode = findNodeAtLocation(cell, ['source']);
+      if (!sourceNode) return;
+
+      const source = this.readSource(sourceNode);
+      if (cellType === 'markdown' && isTranslatableText(source)) {
+        edits.push({ node: sourceNode, render: this.collectMarkdown(source, `cell-${index}`, options, segments, documents) });
+      } else if (cellType === 'code' && commentMarker) {
+        const render = this.collectComments(source, `cell-${index}`, commentMarker, segments);
+        if (render) edits.push({ node: sourceNode, render });
+      }
+    });
+
+    return {
+      segments,
+      rebuild: translations => {
+        // 从后往前替换单元格内容，其余部分保持逐字节一致
+        let output = content;
+        for (const { node, render } of [...edits].reverse()) {
+          const text = render(translations);
+          if (text === null) continue;
+          const raw = content.slice(node.offset, node.offset + node.length);
+          output = output.slice(0, node.offset) + this.formatSource(text, node, raw, content) + output.slice(node.offset + node.length);
+        }
+
+        const outputErrors: ParseError[] = [];
+        const notebook = parse(output, outputErrors);
+        if (outputErrors.length > 0 || notebook?.cells?.length !== cells.children?.length) {
+          throw new APIError(FORMAT_ERRORS.INVALID_OUTPUT.message, -1, FORMAT_ERRORS.INVALID_OUTPUT.suggestion);
+        }
+        return output;
+      },
+      restore: (segmentId, text) => {
+        const separator = segmentId.indexOf('/');
+        const document = documents.get(segmentId.slice(0, separator));
+        return document?.restore?.(segmentId.slice(separator + 1), text) ?? text;
+      },
+    };
+  }
+
+  /**
+   * 读取单元格内容（字符串或按行拆分的字符串数组）
+   */
+  private readSource(node: Node): string {
+    if (node.type === 'string') return node.value;
+    return (node.children ?? []).map(child => String(child.value ?? '')).join('');
+  }
+
+  /**
+   * 按 Markdown 处理单元格内容，段落 ID 加上单元格前缀，解析结果按前缀记录到 documents
+   */
+  private collectMarkdown(
+    source: string,
+    prefix: string,
+    options: TranslationOptions,
+    segments: Segment[],
+    documents: Map<string, ParsedDocument>
+  ): CellEdit['render'] {
+    const document = this.markdownHandler.parse(source, 'cell.md', options);
+    documents.set(prefix, document);
+    segments.push(...document.segments.map(segment => ({ ...segment, id: `${prefix}/${segment.id}` })));
+
+    return translations => {
+      const cellTranslations = new Map<string, string>();
+      for (const segment of document.segments) {
+        const translation = translations.get(`${prefix}/${segment.id}`);
+        if (translation === undefined) return null;
+        cellTranslations.set(segment.id, translation);
+      }
+      return document.rebuild(cellTranslations);
+    };
+  }
+
+  /**
+   * 收集代码单元格中的行注释，没有可翻译的注释时返回 null
+   */
+  private collectComments(
+    source: string,
+    prefix: string,
+    marker: string,
+    segments: Segment[]
+  ): CellEdit['render'] | null {
+    const lines = source.split('\n');
+    const comments: Array<{ line: number; head: string; id: string }> = [];
+
+    lines.forEach((line, index) => {
+      const position = this.findComment(line, marker);
+      if (position < 0) return;
+
+      const [, space, text] = line.slice(position + marker.length).match(/^(\s*)(.*)$/)!;
+      // 跳过 shebang、编码声明、单元格分隔符（# %%）和类型注释
+      if (!isTranslatableText(text) || /^(!|-\*-|%%|type:)/.test(text)) return;
+
+      const id = `${prefix}/comment-${index}`;
+      comments.push({ line: index, head: line.slice(0, position + marker.length) + space, id });
+      segments.push({ id, text, kind: 'inline', note: '代码注释' });
+    });
+
+    if (comments.length === 0) return null;
+
+    return translations => {
+      const output = [...lines];
+      for (const { line, head, id } of comments) {
+        const translation = translations.get(id);
+        if (translation !== undefined) {
+          // 注释必须保持在一行内
+          output[line] = head + translation.replace(/\s*\n\s*/g, ' ');
+        }
+      }
+      return output.join('\n');
+    };
+  }
+
+  /**
+   * 查找行注释的位置：整行注释，或前面的代码中没有引号的行尾注释
+   */
+  private findComment(line: string, marker: string): number {
+    const position = line.indexOf(marker);
+    if (position < 0) return -1;
+
+    const code = line.slice(0, position);
+    if (code.trim() && (/["'`]/.test(code) || !/\s$/.test(code))) return -1;
+    return position;
+  }
+
+  /**
+   * 按原单元格的写法（字符串或每行一项的数组，含缩进）输出新内容
+   */
+  private formatSource(text: string, node: Node, raw: string, content: string): string {
+    if (node.type === 'string') {
+      return JSON.stringify(text);
+    }
+
+    // nbformat 约定：除最后一行外每行保留结尾的换行符
+    const lines = text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+    if (!raw.includes('\n') || !node.children?.length) {
+      return JSON.stringify(lines);
+    }
+
+    const lineStart = (offset: number) => content.lastIndexOf('\n', offset - 1) + 1;
+    const first = node.children[0];
+    const itemIndent = content.slice(lineStart(first.offset), first.offset);
+    const closeOffset = node.offset + node.length - 1;
+    const closeIndent = content.slice(lineStart(closeOffset), closeOffset);
+    const eol = raw.includes('\r\n') ? '\r\n' : '\n';
+
+    return `[${eol}${lines.map(line => itemIndent + JSON.stringify(line)).join(`,${eol}`)}${eol}${closeIndent}]`;
+  }
+}
@@ -0,0 +1,331 @@
+import { Config, FormatHandler, LanguageCode, ParsedDocument, Segment, TranslationMetadata, TranslationOptions } from '../types';
+import { APIError, FORMAT_ERRORS } from '../errors';
+
+interface PoEntry {
+  /** 条目的原始行 */
+  lines: string[];
+  /** msgctxt / msgid 所在的第一行 */
+  keywordStart: number;
+  /** 第一条 msgstr 所在的行 */
+  msgstrStart: number;
+  msgid: string;
+  msgidPlural?: string;
+  msgstr: string[];
+  flags: string[];
+  /** 是否为已废弃（#~）的条目 */
+  obsolete: boolean;
+}
+
+interface PluralRule {
+  nplurals: number;
+  expression: string;
+  select: (n: number) => number;
+}
+
+/**
+ * 各目标语言的复数规则（与 gettext 的 Plural-Forms 一致）
+ */
+const PLURAL_RULES: Record<LanguageCode, PluralRule> = {
+  zh: { nplurals: 1, expression: '0', select: () => 0 },
+  ja: { nplurals: 1, expression: '0', select: () => 0 },
+  ko: { nplurals: 1, expression: '0', select: () => 0 },
+  en: { nplurals: 2, expression: '(n != 1)', select: n => Number(n !== 1) },
+  de: { nplurals: 2, expression: '(n != 1)', select: n => Number(n !== 1) },
+  es: { nplurals: 2, expression: '(n != 1)', select: n => Number(n !== 1) },
+  it: { nplurals: 2, expression: '(n != 1)', select: n => Number(n !== 1) },
+  pt: { nplurals: 2, expression: '(n != 1)', select: n => Number(n !== 1) },
+  hi: { nplurals: 2, expression: '(n != 1)', select: n => Number(n !== 1) },
+  fr: { nplurals: 2, expression: '(n > 1)', select: n => Number(n > 1) },
+  ru: {
+    nplurals: 3,
+    expression: '(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2)',
+    select: n => n % 10 === 1 && n % 100 !== 11 ? 0 : n % 10 >= 2 && n % 10 <= 4 && (n % 100 < 10 || n % 100 >= 20) ? 1 : 2,
+  },
+  ar: {
+    nplurals: 6,
+    expression: '(n==0 ? 0 : n==1 ? 1 : n==2 ? 2 : n%100>=3 && n%100<=10 ? 3 : n%100>=11 ? 4 : 5)',
+    select: n => n === 0 ? 0 : n === 1 ? 1 : n === 2 ? 2 : n % 100 >= 3 && n % 100 <= 10 ? 3 : n % 100 >= 11 ? 4 : 5,
+  },
+};
+
+const KEYWORD_PATTERN = /^(msgctxt|msgid_plural|msgid|msgstr(?:\[(\d+)\])?)\s+"(.*)"\s*$/;
+
+/**
+ * gettext PO / POT 处理器：将 msgid 翻译到 msgstr，保留注释和引用，机器译文标记为 fuzzy
+ */
+export class PoHandler implements FormatHandler {
+  public name = 'po';
+  public extensions = ['.po', '.pot'];
+  public structured = true;
+  private config: Config;
+
+  constructor(config: Config) {
+    this.config = config;
+  }
+
+  public parse(content: string, filePath: string, options: TranslationOptions): ParsedDocument {
+    const crlf = content.includes('\r\n');
+    const source = crlf ? content.replace(/\r\n/g, '\n') : content;
+    const blocks = this.splitBlocks(source);
+    const entries = blocks.map(block => block.entry);
+    const rule = PLURAL_RULES[options.languages.target];
+
+    const segments: Segment[] = [];
+    entries.forEach((entry, index) => {
+      if (!entry || entry.obsolete || entry.msgid === '') return;
+      const translated = entry.msgstr.length > 0 && entry.msgstr.every(Boolean);
+      if (translated && !this.config.overwriteTranslations) return;
+
+      if (entry.msgidPlural === undefined) {
+        segments.push({ id: `${index}`, text: entry.msgid, kind: 'inline' });
+        return;
+      }
+
+      // 每种复数形式单独翻译，并告诉模型适用的数量
+      for (let form = 0; form < rule.nplurals; form++) {
+        const examples = this.pluralExamples(rule, form);
+        segments.push({
+          id: `${index}[${form}]`,
+          text: examples.includes(1) ? entry.msgid : entry.msgidPlural,
+          kind: 'inline',
+          note: rule.nplurals === 1
+            ? '目标语言没有复数变化，请给出适用于任意数量的译文'
+            : `复数形式 ${form}，适用于 n = ${examples.join(', ')}${examples.length > 1 ? ' 等' : ''}`,
+        });
+      }
+    });
+
+    return {
+      segments,
+      rebuild: translations => {
+        const output = blocks.map((block, index) => {
+          const entry = block.entry;
+          if (!entry) return block.raw;
+
+          if (entry.msgid === '' && !entry.obsolete) {
+            return this.updateHeader(entry, {
+              Language: options.languages.target,
+              'Plural-Forms': `nplurals=${rule.nplurals}; plural=${rule.expression};`,
+            }) + block.trailing;
+          }
+
+          const msgstr = entry.msgidPlural === undefined
+            ? [translations.get(`${index}`)]
+            : Array.from({ length: rule.nplurals }, (_, form) => translations.get(`${index}[${form}]`));
+          if (msgstr.some(value => value === undefined)) return block.raw;
+
+          return this.renderEntry(entry, msgstr as string[]) + block.trailing;
+        }).join('');
+
+        return crlf ? output.replace(/\n/g, '\r\n') : output;
+      },
+      insertMetadata: (output, metadata: TranslationMetadata) => {
+        const normalized = crlf ? output.replace(/\r\n/g, '\n') : output;
+        const outputBlocks = this.splitBlocks(normalized);
+        const header = outputBlocks.find(block => block.entry && !block.entry.obsolete && block.entry.msgid === '');
+        const fields: Record<string, string> = {
+          'PO-Revision-Date': this.formatPoDate(new Date()),
+          'X-Generator': 'gpt-translator',
+        };
+        Object.entries(metadata.fields).forEach(([key, value]) => {
+          fields[`X-Translation-${key}`] = value;
+        });
+
+        const result = header
+          ? outputBlocks.map(block => block === header ? this.updateHeader(block.entry!, fields) + block.trailing : block.raw).join('')
+          : this.updateHeader(this.emptyHeader(), fields) + '\n' + normalized;
+        return crlf ? result.replace(/\n/g, '\r\n') : result;
+      },
+    };
+  }
+
+  /**
+   * 按空行切分条目，保留条目之间的空白
+   */
+  private splitBlocks(source: string): Array<{ raw: string; trailing: string; entry: PoEntry | null }> {
+    const parts = source.split(/(\n(?:[ \t]*\n)+)/);
+    const blocks: Array<{ raw: string; trailing: string; entry: PoEntry | null }> = [];
+
+    for (let i = 0; i < parts.length; i += 2) {
+      const [, body, whitespace] = parts[i].match(/^([\s\S]*?)(\s*)$/)!;
+      const trailing = whitespace + (parts[i + 1] ?? '');
+      blocks.push({
+        raw: body + trailing,
+        trailing,
+        entry: body.trim() ? this.parseEntry(body.split('\n')) : null,
+      });
+    }
+
+    return blocks;
+  }
+
+  /**
+   * 解析单个条目
+   */
+  private parseEntry(lines: string[]): PoEntry | null {
+    const entry: PoEntry = {
+      lines,
+      keywordStart: -1,
+      msgstrStart: -1,
+      msgid: '',
+      msgstr: [],
+      flags: [],
+      obsolete: false,
+    };
+    let current: { key: string; index: number } | null = null;
+    let hasMsgid = false;
+
+    lines.forEach((rawLine, lineIndex) => {
+      let line = rawLine.trim();
+      if (line.startsWith('#~')) {
+        entry.obsolete = true;
+        line = line.slice(2).trim();
+      } else if (line.startsWith('#,')) {
+        entry.flags = line.slice(2).split(',').map(flag => flag.trim()).filter(Boolean);
+        return;
+      } else if (line.startsWith('#')) {
+        return;
+      }
+
+      const match = line.match(KEYWORD_PATTERN);
+      if (match) {
+        const [, keyword, pluralIndex, value] = match;
+        const key = keyword.startsWith('msgstr') ? 'msgstr' : keyword;
+        if (entry.keywordStart < 0) entry.keywordStart = lineIndex;
+        if (key === 'msgstr' && entry.msgstrStart < 0) entry.msgstrStart = lineIndex;
+        current = { key, index: pluralIndex ? Number(pluralIndex) : 0 };
+        if (key === 'msgid') hasMsgid = true;
+        this.appendValue(entry, current, this.unescape(value), true);
+      } else if (/^".*"$/.test(line) && current) {
+        this.appendValue(entry, current, this.unescape(line.slice(1, -1)), false);
+      } else if (line) {
+        throw new APIError(FORMAT_ERRORS.PARSE_FAILED.message, -1, `${FORMAT_ERRORS.PARSE_FAILED.suggestion}（无法识别的 PO 行：${line}）`);
+      }
+    });
+
+    return hasMsgid ? entry : null;
+  }
+
+  /**
+   * 将字符串追加到条目的对应字段
+   */
+  private appendValue(entry: PoEntry, field: { key: string; index: number }, value: string, reset: boolean): void {
+    switch (field.key) {
+      case 'msgid':
+        entry.msgid = reset ? value : entry.msgid + value;
+        break;
+      case 'msgid_plural':
+        entry.msgidPlural = reset ? value : (entry.msgidPlural ?? '') + value;
+        break;
+      case 'msgstr':
+        entry.msgstr[field.index] = reset ? value : (entry.msgstr[field.index] ?? '') + value;
+        break;
+    }
+  }
+
+  /**
+   * 输出翻译后的条目：保留注释和 msgid，添加 fuzzy 标记并替换 msgstr
+   */
+  private renderEntry(entry: PoEntry, msgstr: string[]): string {
+    const flags = entry.flags.includes('fuzzy') ? entry.flags : ['fuzzy', ...entry.flags];
+    const flagLine = `#, ${flags.join(', ')}`;
+    const comments = entry.lines.slice(0, entry.keywordStart).filter(line => !line.trim().startsWith('#,'));
+    // gettext 的约定：flags 行位于 #| 之前、其他注释之后
+    const previousIndex = comments.findIndex(line => line.trim().startsWith('#|'));
+    if (previousIndex >= 0) {
+      comments.splice(previousIndex, 0, flagLine);
+    } else {
+      comments.push(flagLine);
+    }
+
+    const keywords = entry.lines.slice(entry.keywordStart, entry.msgstrStart);
+    const values = entry.msgidPlural === undefined
+      ? this.renderString('msgstr', msgstr[0])
+      : msgstr.flatMap((value, index) => this.renderString(`msgstr[${index}]`, value));
+
+    return [...comments, ...keywords, ...values].join('\n');
+  }
+
+  /**
+   * 更新头部条目中的字段，没有时追加
+   */
+  private updateHeader(entry: PoEntry, fields: Record<string, string>): string {
+    const lines = (entry.msgstr[0] ?? '').split('\n').filter(Boolean);
+    for (const [key, value] of Object.entries(fields)) {
+      const index = lines.findIndex(line => line.toLowerCase().startsWith(`${key.toLowerCase()}:`));
+      if (index >= 0) {
+        lines[index] = `${key}: ${value}`;
+      } else {
+        lines.push(`${key}: ${value}`);
+      }
+    }
+
+    const header = lines.map(line => `${line}\n`).join('');
+    const keep = entry.lines.slice(0, entry.msgstrStart < 0 ? entry.lines.length : entry.msgstrStart);
+    const body = ['msgstr ""', ...header.split(/(?<=\n)/).filter(Boolean).map(line => `"${this.escape(line)}"`)];
+    return [...keep, ...body].join('\n');
+  }
+
+  /**
+   * 构造空的头部条目
+   */
+  private emptyHeader(): PoEntry {
+    return {
+      lines: ['msgid ""'],
+      keywordStart: 0,
+      msgstrStart: -1,
+      msgid: '',
+      msgstr: [''],
+      flags: [],
+      obsolete: false,
+    };
+  }
+
+  /**
+   * 输出 PO 字符串，多行内容按 gettext 惯例拆行
+   */
+  private renderString(keyword: string, value: string): string[] {
+    const lines = value.split(/(?<=\n)/).filter(Boolean);
+    if (lines.length <= 1) {
+      return [`${keyword} "${this.escape(value)}"`];
+    }
+    return [`${keyword} ""`, ...lines.map(line => `"${this.escape(line)}"`)];
+  }
+
+  /**
+   * 列出某个复数形式适用的数量示例
+   */
+  private pluralExamples(rule: PluralRule, form: number): number[] {
+    const examples: number[] = [];
+    for (let n = 0; n <= 200 && examples.length < 4; n++) {
+      if (rule.select(n) === form) examples.push(n);
+    }
+    return examples;
+  }
+
+  /**
+   * 生成 PO 头部使用的时间格式，例如 2024-01-01 12:00+0000
+   */
+  private formatPoDate(date: Date): string {
+    return `${date.toISOString().slice(0, 16).replace('T', ' ')}+0000`;
+  }
+
+  private escape(value: string): string {
+    return value
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, '\\n')
+      .replace(/\t/g, '\\t');
+  }
+
+  private unescape(value: string): string {
+    return value.replace(/\\(.)/g, (_, char) => {
+      switch (char) {
+        case 'n': return '\n';
+        case 't': return '\t';
+        case 'r': return '\r';
+        default: return char;
+      }
+    });
+  }
+}
@@ -0,0 +1,200 @@
+import path from 'path';
+import { Config, FormatHandler, LanguageCode, ParsedDocument, Segment, TranslationOptions } from '../types';
+import { PlaceholderMap, PLACEHOLDER_PROMPT } from '../placeholders';
+import { isTranslatableText } from '../utils';
+
+interface Cue {
+  /** 字幕文本在原文中的区间（不含时间轴和序号） */
+  start: number;
+  end: number;
+  /** 受保护的样式标签 */
+  placeholders: PlaceholderMap;
+}
+
+/**
+ * 时间轴行，如 00:00:01,000 --> 00:00:02,500 或 00:01.000 --> 00:02.500 align:start
+ */
+const TIMING_PATTERN = /^\s*(?:\d+:)?\d{2}:\d{2}[,.]\d{3}\s+-->\s+(?:\d+:)?\d{2}:\d{2}[,.]\d{3}/;
+
+/**
+ * 字幕中的样式标签：HTML 风格标签（<i>、<v Speaker>、<00:00:01.000>）和 ASS 风格覆盖代码（{\an8}）
+ */
+const TAG_PATTERN = /<[^>\n]+>|\{\\[^}\n]*\}/g;
+
+/**
+ * 折行时的最小单位：完整的样式标签或单个字符
+ */
+const ATOM_PATTERN = /<[^>\n]+>|\{\\[^}\n]*\}|[\s\S]/gu;
+
+/**
+ * 词与词之间不使用空格的语言，折行时可在任意字符处断开
+ */
+const UNSPACED_LANGUAGES: LanguageCode[] = ['zh', 'ja'];
+
+/**
+ * 不能出现在行首的标点
+ */
+const NO_BREAK_BEFORE = '，。！？、；：,.!?;:）」』》)]';
+
+/**
+ * 字幕处理器：只翻译字幕文本，序号、时间轴和 WebVTT 的 NOTE / STYLE 块原样保留
+ */
+export class SubtitleHandler implements FormatHandler {
+  public name = 'subtitle';
+  public extensions = ['.srt', '.vtt'];
+  public structured = true;
+  public prompt = [
+    PLACEHOLDER_PROMPT,
+    '各条目是按播放顺序排列的连续字幕，请结合前后条目理解上下文，但每条只翻译自身的内容，不要合并、拆分或在条目之间移动内容。',
+    '条目中的换行表示字幕分行，译文可以按目标语言的习惯调整分行。',
+  ].join('\n');
+  private config: Config;
+
+  constructor(config: Config) {
+    this.config = config;
+  }
+
+  public parse(content: string, filePath: string, options: TranslationOptions): ParsedDocument {
+    const isVtt = path.extname(filePath).toLowerCase() === '.vtt';
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    const lines = content.split(/(?<=\n)/);
+    const cues: Cue[] = [];
+    const segments: Segment[] = [];
+
+    let offset = 0;
+    let inCue = false;
+    let cueStart = 0;
+    let cueEnd = 0;
+
+    const flushCue = () => {
+      inCue = false;
+      if (cueEnd <= cueStart) return;
+
+      const placeholders = new PlaceholderMap();
+      const text = content.slice(cueStart, cueEnd)
+        .replace(/\r?\n$/, '')
+        .replace(/\r\n/g, '\n')
+        .replace(TAG_PATTERN, tag => placeholders.add(tag));
+      if (!isTranslatableText(text)) return;
+
+      segments.push({ id: `cue-${cues.length}`, text, kind: 'inline' });
+      cues.push({ start: cueStart, end: cueEnd, placeholders });
+    };
+
+    for (const line of lines) {
+      const isBlank = line.trim() === '';
+      if (inCue) {
+        if (isBlank) {
+          flushCue();
+        } else {
+          cueEnd = offset + line.length;
+        }
+      } else if (TIMING_PATTERN.test(line)) {
+        // 时间轴之后直到空行都是字幕文本
+        inCue = true;
+        cueStart = cueEnd = offset + line.length;
+      }
+      offset += line.length;
+    }
+    if (inCue) flushCue();
+
+    return {
+      segments,
+      rebuild: translations => {
+        let output = content;
+
+        // 从后往前替换，前面字幕的位置不受影响
+        for (let index = cues.length - 1; index >= 0; index--) {
+          const cue = cues[index];
+          const translation = translations.get(`cue-${index}`);
+          if (translation === undefined) continue;
+
+          const restored = cue.placeholders.restore(translation);
+          const text = this.formatCueText(restored, options.languages.target);
+          // 保留字幕文本最后一行的换行符
+          const trailing = content.slice(cue.start, cue.end).match(/\r?\n$/)?.[0] ?? '';
+          output = output.slice(0, cue.start) + text.split('\n').join(eol) + trailing + output.slice(cue.end);
+        }
+        return output;
+      },
+      // SRT 没有注释语法，只有 WebVTT 可以写入元数据
+      ...(isVtt && {
+        insertMetadata: (output: string, metadata: { fields: Record<string, string> }) => {
+          // NOTE 块放在 WEBVTT 头部之后
+          const match = output.match(/^[^\r\n]*(?:\r?\n[^\r\n]+)*(\r?\n)\r?\n/);
+          if (!match) return output;
+          const lineBreak = match[1];
+          const note = ['NOTE', ...Object.entries(metadata.fields).map(([key, value]) => `${key}: ${value}`)];
+          return output.slice(0, match[0].length) + note.join(lineBreak) + lineBreak + lineBreak + output.slice(match[0].length);
+        },
+      }),
+    };
+  }
+
+  /**
+   * 整理字幕译文：去掉空行（空行会结束字幕），按需要折行
+   */
+  private formatCueText(text: string, target: LanguageCode): string {
+    const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+    const maxLength = this.config.subtitleMaxLineLength;
+    if (maxLength <= 0) {
+      return lines.join('\n');
+    }
+    return lines.flatMap(line => this.wrapLine(line, maxLength, target)).join('\n');
+  }
+
+  /**
+   * 将超长的行折成长度接近的多行，每行不超过最大字符数（单个词过长时除外）
+   */
+  private wrapLine(line: string, maxLength: number, target: LanguageCode): string[] {
+    const length = this.visibleLength(line);
+    if (length <= maxLength) return [line];
+
+    // 先按均分后的宽度折行，行数变多时退回最大宽度
+    const lineCount = Math.ceil(length / maxLength);
+    const balanced = this.breakLine(line, Math.ceil(length / lineCount), target);
+    return balanced.length <= lineCount ? balanced : this.breakLine(line, maxLength, target);
+  }
+
+  /**
+   * 按宽度贪心折行：有空格的语言按词断开，中文和日文按字符断开
+   */
+  private breakLine(line: string, width: number, target: LanguageCode): string[] {
+    const result: string[] = [];
+
+    if (UNSPACED_LANGUAGES.includes(target)) {
+      let current = '';
+      for (const atom of line.match(ATOM_PATTERN) ?? []) {
+        // 标签不占宽度，标点跟随上一行，不出现在行首
+        const isTag = Array.from(atom).length > 1;
+        if (!isTag && this.visibleLength(current) >= width && !NO_BREAK_BEFORE.includes(atom)) {
+          result.push(current.trim());
+          current = '';
+        }
+        current += atom;
+      }
+      if (current.trim()) result.push(current.trim());
+      return result;
+    }
+
+    let current = '';
+    for (const word of line.split(/\s+/)) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (current && this.visibleLength(candidate) > width) {
+        result.push(current);
+        current = word;
+      } else {
+        current = candidate;
+      }
+    }
+    if (current) result.push(current);
+    return result;
+  }
+
+  /**
+   * 可见字符数（不含样式标签）
+   */
+  private visibleLength(text: string): number {
+    return Array.from(text.replace(TAG_PATTERN, '')).length;
+  }
+}
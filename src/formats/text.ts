@@ -0,0 +1,16 @@
+import { FormatHandler, ParsedDocument } from '../types';
+
+/**
+ * 纯文本处理器：整个文件作为一个段落翻译
+ */
+export class TextHandler implements FormatHandler {
+  public name = 'text';
+  public extensions: string[] = [];
+
+  public parse(content: string): ParsedDocument {
+    return {
+      segments: [{ id: 'content', text: content, kind: 'block' }],
+      rebuild: translations => translations.get('content') ?? '',
+    };
+  }
+}
@@ -0,0 +1,121 @@
+import { parseAllDocuments, parse, isMap, isSeq, isScalar, isPair, Scalar } from 'yaml';
+import { Config, FormatHandler, ParsedDocument, Segment } from '../types';
+import { APIError, FORMAT_ERRORS } from '../errors';
+import { isKeyPathIncluded, isTranslatableText } from '../utils';
+
+interface ScalarEntry {
+  path: string;
+  node: Scalar;
+  start: number;
+  end: number;
+}
+
+/**
+ * YAML 处理器：只翻译字符串值，直接替换原文中对应的区间，注释和格式保持不变
+ */
+export class YamlHandler implements FormatHandler {
+  public name = 'yaml';
+  public extensions = ['.yaml', '.yml'];
+  public structured = true;
+  private config: Config;
+
+  constructor(config: Config) {
+    this.config = config;
+  }
+
+  public parse(content: string): ParsedDocument {
+    const documents = parseAllDocuments(content);
+    if (!Array.isArray(documents) || documents.some(doc => doc.errors.length > 0)) {
+      throw new APIError(FORMAT_ERRORS.PARSE_FAILED.message, -1, FORMAT_ERRORS.PARSE_FAILED.suggestion);
+    }
+
+    const entries: ScalarEntry[] = [];
+    documents.forEach((doc, index) => {
+      const prefix = documents.length > 1 ? [String(index)] : [];
+      this.collectScalars(doc.contents, prefix, entries);
+    });
+
+    const segments: Segment[] = entries.map(entry => ({
+      id: entry.path,
+      text: String(entry.node.value),
+      kind: 'inline',
+    }));
+
+    return {
+      segments,
+      rebuild: translations => {
+        let output = content;
+        for (const entry of [...entries].reverse()) {
+          const translation = translations.get(entry.path);
+          if (translation === undefined) continue;
+          const raw = content.slice(entry.start, entry.end);
+          output = output.slice(0, entry.start) + this.formatScalar(entry.node, raw, translation) + output.slice(entry.end);
+        }
+
+        const outputDocuments = parseAllDocuments(output);
+        if (!Array.isArray(outputDocuments) || outputDocuments.some(doc => doc.errors.length > 0)) {
+          throw new APIError(FORMAT_ERRORS.INVALID_OUTPUT.message, -1, FORMAT_ERRORS.INVALID_OUTPUT.suggestion);
+        }
+        return output;
+      },
+    };
+  }
+
+  /**
+   * 递归收集字符串标量及其键路径
+   */
+  private collectScalars(node: unknown, path: string[], entries: ScalarEntry[]): void {
+    if (isMap(node)) {
+      for (const pair of node.items) {
+        if (!isPair(pair)) continue;
+        const key = isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+        this.collectScalars(pair.value, [...path, key], entries);
+      }
+    } else if (isSeq(node)) {
+      node.items.forEach((item, index) => this.collectScalars(item, [...path, String(index)], entries));
+    } else if (isScalar(node) && typeof node.value === 'string' && node.range && !node.tag) {
+      // 分段编号使用 JSON 形式的键路径，避免键名中的 . 与嵌套路径混淆；点分形式只用于匹配键路径规则
+      if (isTranslatableText(node.value) && isKeyPathIncluded(path.join('.'), this.config.structuredKeys)) {
+        entries.push({ path: JSON.stringify(path), node, start: node.range[0], end: node.range[1] });
+      }
+    }
+  }
+
+  /**
+   * 按原标量的风格输出译文
+   */
+  private formatScalar(node: Scalar, raw: string, translation: string): string {
+    switch (node.type) {
+      case Scalar.BLOCK_LITERAL:
+      case Scalar.BLOCK_FOLDED: {
+        // 保留块标量的头部（| 或 >）、缩进和结尾换行
+        const [header, ...lines] = raw.split('\n');
+        const indent = lines.find(line => line.trim())?.match(/^\s*/)?.[0] ?? '  ';
+        const trailing = raw.match(/\n*$/)?.[0] ?? '';
+        const body = translation.replace(/\n+$/, '').split('\n').map(line => line ? indent + line : '').join('\n');
+        return `${header}\n${body}${trailing}`;
+      }
+      case Scalar.QUOTE_SINGLE:
+        return `'${translation.replace(/'/g, "''")}'`;
+      case Scalar.PLAIN:
+        // 能以普通标量原样解析时保持不加引号（含流式集合分隔符时一律加引号）
+        if (!/[\n,[\]{}]/.test(translation) && this.parsesAsPlain(translation)) {
+          return translation;
+        }
+        return JSON.stringify(translation);
+      default:
+        return JSON.stringify(translation);
+    }
+  }
+
+  /**
+   * 判断文本作为普通标量时能否原样解析
+   */
+  private parsesAsPlain(text: string): boolean {
+    try {
+      return parse(`key: ${text}`)?.key === text;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,297 @@
+import fs from 'fs';
+import path from 'path';
+import { parseDocument, DomUtils } from 'htmlparser2';
+import { GlossaryTerm, LanguageCode, LanguagePair, TermCandidate } from './types';
+import { APIError, FILE_ERRORS, FORMAT_ERRORS } from './errors';
+import { escapeXml, logger, normalizeLanguageCode } from './utils';
+import { parseCsvRows } from './formats/csv';
+
+/**
+ * 一个术语在各语言中的译法
+ */
+type Concept = Partial<Record<LanguageCode, string>>;
+
+/**
+ * 支持的术语表文件格式
+ */
+const GLOSSARY_EXTENSIONS = ['.csv', '.json', '.tbx'];
+
+/**
+ * 词与词之间不使用空格的文字，匹配术语时不检查词边界
+ */
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}]/u;
+
+/**
+ * 候选术语的写法：连续的首字母大写单词、句中首字母大写的单词、驼峰标识符
+ */
+const CANDIDATE_PATTERNS = [
+  /\b[A-Z][A-Za-z0-9]*[a-z][A-Za-z0-9]*(?:[ \t]+[A-Z][A-Za-z0-9]*[a-z][A-Za-z0-9]*){1,3}\b/g,
+  /(?<=(?:^|\s)[a-z][a-z0-9]*[,;]?[ \t]+)[A-Z][a-z]{2,}\b(?![ \t]+[A-Z])/gm,
+  /\b[a-z]+(?:[A-Z][a-z0-9]+)+\b|\b[A-Z][a-z0-9]+(?:[A-Z][a-z0-9]*)+\b/g,
+];
+
+/**
+ * 标题中常见的首字母大写虚词，短语以这些词开头时去掉
+ */
+const LEADING_WORDS = new Set([
+  'A', 'An', 'The', 'This', 'That', 'These', 'Those', 'In', 'On', 'For', 'To', 'With', 'If', 'When', 'Our', 'Your', 'We', 'You', 'It',
+]);
+
+/**
+ * 从文本中提取出现次数不少于 minCount 的候选术语（含专有名词模式的匹配），按出现次数从高到低排列
+ */
+export function extractTermCandidates(texts: string[], patterns: string[], minCount: number): TermCandidate[] {
+  const expressions = [...CANDIDATE_PATTERNS];
+  for (const pattern of patterns) {
+    try {
+      expressions.push(new RegExp(pattern, 'g'));
+    } catch {
+      logger.warn(`专有名词模式无效，已忽略：${pattern}`);
+    }
+  }
+
+  const candidates = new Map<string, TermCandidate>();
+  for (const text of texts) {
+    // URL 中的单词不是术语
+    const content = text.replace(/\b[a-z][\w+.-]*:\/\/\S+/gi, ' ');
+    for (const expression of expressions) {
+      for (const match of content.matchAll(expression)) {
+        const words = match[0].trim().split(/\s+/);
+        // 句首单词的大写不能说明它属于术语
+        const index = match.index ?? 0;
+        if (words.length > 1 && /(?:^|[.!?:#>*-])\s*$/.test(content.slice(Math.max(0, index - 10), index))) words.shift();
+        while (words.length > 1 && LEADING_WORDS.has(words[0])) words.shift();
+        const term = words.join(' ');
+        if (!/\p{L}/u.test(term) || LEADING_WORDS.has(term)) continue;
+
+        const candidate = candidates.get(term);
+        if (candidate) {
+          candidate.count++;
+          continue;
+        }
+        const context = content.slice(Math.max(0, index - 40), index + match[0].length + 40).replace(/\s+/g, ' ').trim();
+        candidates.set(term, { term, count: 1, context });
+      }
+    }
+  }
+
+  return Array.from(candidates.values())
+    .filter(candidate => candidate.count >= minCount)
+    .sort((a, b) => b.count - a.count || a.term.localeCompare(b.term));
+}
+
+/**
+ * 按文件扩展名将术语序列化为 CSV / JSON / TBX
+ */
+export function serializeGlossary(terms: GlossaryTerm[], languages: LanguagePair, filePath: string): string {
+  const { source, target } = languages;
+  const extension = path.extname(filePath).toLowerCase();
+
+  if (extension === '.csv') {
+    const field = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    return [`${source},${target}`, ...terms.map(term => `${field(term.source)},${field(term.target)}`)].join('\n') + '\n';
+  }
+
+  if (extension === '.json') {
+    const table = Object.fromEntries(terms.map(term => [term.source, term.target]));
+    return JSON.stringify({ [`${source}-${target}`]: table }, null, 2) + '\n';
+  }
+
+  if (extension === '.tbx') {
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<martif type="TBX" xml:lang="${source}">`,
+      '  <martifHeader><fileDesc><sourceDesc><p>gpt-translator</p></sourceDesc></fileDesc></martifHeader>',
+      '  <text>',
+      '    <body>',
+    ];
+    terms.forEach((term, index) => {
+      lines.push(
+        `      <termEntry id="t${index + 1}">`,
+        `        <langSet xml:lang="${source}"><tig><term>${escapeXml(term.source)}</term></tig></langSet>`,
+        `        <langSet xml:lang="${target}"><tig><term>${escapeXml(term.target)}</term></tig></langSet>`,
+        '      </termEntry>'
+      );
+    });
+    lines.push('    </body>', '  </text>', '</martif>', '');
+    return lines.join('\n');
+  }
+
+  throw new APIError(
+    FILE_ERRORS.UNSUPPORTED_TYPE.message,
+    -1,
+    `术语表仅支持以下格式：${GLOSSARY_EXTENSIONS.join(', ')}（${filePath}）`
+  );
+}
+
+/**
+ * 术语表：按语言对提供术语的规定译法，只把原文中出现的术语提供给模型，并检查译文是否使用了规定译法
+ */
+export class Glossary {
+  private files: string[];
+  private concepts: Concept[] = [];
+  private patterns = new Map<string, RegExp>();
+  private loaded = false;
+
+  constructor(files: string[]) {
+    this.files = files;
+  }
+
+  /**
+   * 从磁盘加载所有术语表文件（只加载一次）
+   */
+  public async load(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    for (const file of this.files) {
+      const extension = path.extname(file).toLowerCase();
+      if (!GLOSSARY_EXTENSIONS.includes(extension)) {
+        throw new APIError(
+          FILE_ERRORS.UNSUPPORTED_TYPE.message,
+          -1,
+          `术语表仅支持以下格式：${GLOSSARY_EXTENSIONS.join(', ')}（${file}）`
+        );
+      }
+
+      const content = (await fs.promises.readFile(file, 'utf-8')).replace(/^\uFEFF/, '');
+      try {
+        if (extension === '.csv') {
+          this.concepts.push(...this.parseCsv(content));
+        } else if (extension === '.json') {
+          this.concepts.push(...this.parseJson(content));
+        } else {
+          this.concepts.push(...this.parseTbx(content));
+        }
+      } catch {
+        throw new APIError(
+          FORMAT_ERRORS.PARSE_FAILED.message,
+          -1,
+          `${FORMAT_ERRORS.PARSE_FAILED.suggestion}（术语表：${file}）`
+        );
+      }
+    }
+  }
+
+  /**
+   * 获取语言对的所有术语，较长的术语排在前面
+   */
+  public getTerms(languages: LanguagePair): GlossaryTerm[] {
+    const terms = new Map<string, GlossaryTerm>();
+    for (const concept of this.concepts) {
+      const source = concept[languages.source]?.trim();
+      const target = concept[languages.target]?.trim();
+      if (source && target && !terms.has(source.toLowerCase())) {
+        terms.set(source.toLowerCase(), { source, target });
+      }
+    }
+    return Array.from(terms.values()).sort((a, b) => b.source.length - a.source.length);
+  }
+
+  /**
+   * 查找文本中出现的术语
+   */
+  public findTerms(text: string, languages: LanguagePair): GlossaryTerm[] {
+    return this.getTerms(languages).filter(term => this.contains(text, term.source));
+  }
+
+  /**
+   * 查找原文中出现、但译文中没有使用规定译法的术语
+   */
+  public findViolations(source: string, target: string, languages: LanguagePair): GlossaryTerm[] {
+    return this.findTerms(source, languages).filter(term => !this.contains(target, term.target));
+  }
+
+  /**
+   * CSV：表头为语言代码（如 en,zh,ja），每行是一个术语，其他列忽略
+   */
+  private parseCsv(content: string): Concept[] {
+    const [header, ...rows] = parseCsvRows(content, ',');
+    const languages = header.fields.map(field => normalizeLanguageCode(field.value));
+    if (!languages.some(Boolean)) {
+      throw new Error('CSV header must contain language codes');
+    }
+
+    return rows.map(row => {
+      const concept: Concept = {};
+      row.fields.forEach((field, index) => {
+        const language = languages[index];
+        if (language && field.value.trim()) concept[language] = field.value;
+      });
+      return concept;
+    });
+  }
+
+  /**
+   * JSON：按语言对分组的对照表 {"en-zh": {"pull request": "拉取请求"}}，
+   * 或多语言条目数组 [{"en": "pull request", "zh": "拉取请求"}]
+   */
+  private parseJson(content: string): Concept[] {
+    const data = JSON.parse(content);
+    if (Array.isArray(data)) {
+      return data.map(entry => {
+        const concept: Concept = {};
+        for (const [key, value] of Object.entries(entry ?? {})) {
+          const language = normalizeLanguageCode(key);
+          if (language && typeof value === 'string') concept[language] = value;
+        }
+        return concept;
+      });
+    }
+
+    const concepts: Concept[] = [];
+    for (const [pair, terms] of Object.entries(data ?? {})) {
+      const [source, target] = pair.split(/\s*(?:->|=>|:|-)\s*/).map(normalizeLanguageCode);
+      if (!source || !target || source === target) {
+        throw new Error(`Invalid language pair: ${pair}`);
+      }
+      for (const [sourceTerm, targetTerm] of Object.entries(terms as Record<string, unknown>)) {
+        if (typeof targetTerm === 'string') {
+          concepts.push({ [source]: sourceTerm, [target]: targetTerm });
+        }
+      }
+    }
+    return concepts;
+  }
+
+  /**
+   * TBX：每个 termEntry（TBX v3 为 conceptEntry）是一个术语，
+   * langSet（langSec）中的第一个 term 为该语言的规定译法
+   */
+  private parseTbx(content: string): Concept[] {
+    const document = parseDocument(content, { xmlMode: true });
+    const entries = DomUtils.findAll(element => element.name === 'termEntry' || element.name === 'conceptEntry', document.children);
+    return entries.map(entry => {
+      const concept: Concept = {};
+      const langSets = DomUtils.findAll(element => element.name === 'langSet' || element.name === 'langSec', entry.children);
+      for (const langSet of langSets) {
+        const language = normalizeLanguageCode(langSet.attribs['xml:lang'] ?? langSet.attribs.lang);
+        const [term] = DomUtils.getElementsByTagName('term', langSet.children, true);
+        const text = term && DomUtils.textContent(term).trim();
+        if (language && text && !concept[language]) concept[language] = text;
+      }
+      return concept;
+    });
+  }
+
+  /**
+   * 判断文本中是否出现术语（不区分大小写；使用空格分词的文字按完整单词匹配，允许英文复数词尾）
+   */
+  private contains(text: string, term: string): boolean {
+    let pattern = this.patterns.get(term);
+    if (!pattern) {
+      const chars = Array.from(term);
+      const bounded = (char: string) => /[\p{L}\p{N}_]/u.test(char) && !UNSPACED_SCRIPT.test(char);
+      const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+      pattern = new RegExp(
+        (bounded(chars[0]) ? '(?<![\\p{L}\\p{N}_])' : '') +
+        escaped +
+        (/[a-z]$/i.test(term) ? '(?:e?s)?' : '') +
+        (bounded(chars[chars.length - 1]) ? '(?![\\p{L}\\p{N}_])' : ''),
+        'iu'
+      );
+      this.patterns.set(term, pattern);
+    }
+    return pattern.test(text);
+  }
+}
@@ -4,8 +4,11 @@ import ora from 'ora';
 import { createInterface } from 'readline';
 import { loadConfig } from './config';
 import { Translator } from './translator';
+import { TranslationMemory } from './memory';
+import { RunJournal } from './journal';
+import { serializeGlossary } from './glossary';
 import { logger, pathExists } from './utils';
-import { TranslationOptions, LanguageCode, LANGUAGE_NAMES, Config } from './types';
+import { TranslationOptions, LanguageCode, LANGUAGE_NAMES, Config, QaMode, ValidationPolicy, VALIDATION_POLICIES } from './types';
 import { APIError } from './errors';
 import chalk from 'chalk';
 import fs from 'fs';
@@ -189,8 +192,10 @@ program
   .name('gpt-translator')
   .description('使用 GPT 翻译文件或目录')
   .version('1.0.0')
-  .requiredOption('-i, --input <path>', '输入文件或目录路径')
-  .requiredOption('-o, --output <path>', '输出文件或目录路径')
+  // 子命令有自己的 -i / -o / -l 选项，根命令的选项只在子命令之前解析
+  .enablePositionalOptions()
+  .option('-i, --input <path>', '输入文件或目录路径')
+  .option('-o, --output <path>', '输出文件或目录路径')
   .option('-l, --languages <pair>', '语言对，格式：源语言-目标语言，例如：zh-en、en-ja')
   .option('-s, --skip-proper-nouns', '保持专有名词不变')
   .option('-c, --skip-code-blocks', '保持代码块不变')
@@ -217,6 +222,27 @@ program
   .option('--bilingual-separator <separator>', '双语对照分隔符', '\n---\n')
   .option('--source-first', '原文显示在前（默认译文在前）')
   .option('--align-paragraphs', '对齐段落')
+  .option('--overwrite', '覆盖已有译文（如 PO 文件中已翻译的条目）')
+  .option('--csv-columns <columns>', 'CSV 中需要翻译的列（列名或列号，逗号分隔）')
+  .option('--csv-delimiter <char>', 'CSV 分隔符')
+  .option('--csv-append', '将 CSV 译文写入新列（原列名_目标语言）而不是覆盖原列')
+  .option('--i18n', '语言包模式：保护插值和 ICU 语法，只补充目标语言包中缺失的键')
+  .option('--subtitle-max-line <number>', '字幕每行的最大字符数，超出时折行')
+  .option('--notebook-comments', '翻译 Notebook 代码单元格中的注释')
+  .option('--no-tm', '不使用翻译记忆库')
+  .option('--glossary <files>', '术语表文件（CSV / JSON / TBX，多个用逗号分隔）')
+  .option('--glossary-repair', '译文未使用术语表规定的译法时让模型修正')
+  .option('--validation-policy <policy>', '译文未通过质量检查时的处理方式 (warn/retry/fail)')
+  .option('--qa <mode>', '译后质量评估（back-translate：回译为源语言并与原文比较）')
+  .option('--qa-judge', '回译评估时由模型判断低分分段的语义是否一致')
+  .option('--review', '翻译后由模型审校，为每个分段的准确性、流畅度和术语评分')
+  .option('--review-model <model>', '审校使用的模型（默认与翻译模型相同）')
+  .option('--review-apply', '自动采纳置信度不低于 REVIEW_AUTO_APPLY_CONFIDENCE 的审校建议')
+  .option('--no-incremental', '不使用增量翻译（不读取也不更新翻译清单）')
+  .option('--force', '忽略翻译清单，重新翻译所有文件')
+  .option('--resume', '从输出目录中的运行记录继续上次中断的翻译（沿用上次的输入路径、翻译选项和命令行设置）')
+  .option('--export-xliff [version]', '导出 XLIFF 供人工审校（1.2 或 2.0，默认 1.2），不直接生成译文')
+  .option('--import-xliff <path>', '根据审校后的 XLIFF 文件生成译文（输入为导出时的源文件或目录）')
   .action(async (options) => {
     // 显示标题
     showTitle();
@@ -231,6 +257,21 @@ program
     const spinner = ora();
 
     try {
+      // 继续上次中断的翻译时，输入路径和翻译选项以运行记录为准
+      const resumed = options.resume && options.output ? await RunJournal.readOptions(options.output) : undefined;
+      if (resumed) {
+        options.input = resumed.input;
+      }
+
+      // 翻译时必须指定输入和输出路径（tm 等子命令不需要）
+      if (!options.input || !options.output) {
+        throw new APIError(
+          '未指定输入或输出路径',
+          -1,
+          '请使用 -i 指定输入文件或目录，使用 -o 指定输出目录'
+        );
+      }
+
       // 检查输入路径是否存在
       if (!pathExists(options.input)) {
         throw new APIError(
@@ -240,8 +281,11 @@ program
         );
       }
 
+      // 导入 XLIFF 时语言对以 XLIFF 中记录的为准
+      const importOnly = !!options.importXliff;
+
       // 如果未指定语言对且未启用自动检测，则报错
-      if (!options.languages && !options.autoDetect) {
+      if (!options.languages && !options.autoDetect && !importOnly && !resumed) {
         throw new APIError(
           '未指定语言对',
           -1,
@@ -251,8 +295,8 @@ program
       }
 
       // 解析语言对
-      const languagePair = parseLanguagePair(options.languages);
-      if (!options.autoDetect && !languagePair) {
+      const languagePair = resumed?.languages ?? parseLanguagePair(options.languages);
+      if (!options.autoDetect && !languagePair && !importOnly) {
         throw new APIError(
           '语言对格式错误',
           -1,
@@ -261,12 +305,35 @@ program
         );
       }
 
+      // 解析 XLIFF 版本
+      const xliffExport = options.exportXliff === true ? '1.2' : options.exportXliff;
+      if (xliffExport && !['1.2', '2.0'].includes(xliffExport)) {
+        throw new APIError(
+          'XLIFF 版本错误',
+          -1,
+          '仅支持 1.2 和 2.0，例如：--export-xliff 2.0'
+        );
+      }
+      if (options.validationPolicy && !VALIDATION_POLICIES.includes(options.validationPolicy)) {
+        throw new APIError(
+          '质量检查策略错误',
+          -1,
+          `仅支持 ${VALIDATION_POLICIES.join('、')}，例如：--validation-policy fail`
+        );
+      }
+      if (options.qa && options.qa !== 'back-translate') {
+        throw new APIError(
+          '质量评估方式错误',
+          -1,
+          '目前仅支持回译评估：--qa back-translate'
+        );
+      }
+
       // 加载配置
       const config = loadConfig();
 
       // 命令行配置覆盖 .env 配置
-      const mergedConfig = {
-        ...config,
+      const cliOverrides: Partial<Config> = {
         // 翻译设置
         ...(options.concurrency && { maxConcurrentTranslations: parseInt(options.concurrency, 10) }),
         ...(options.retryCount && { retryCount: parseInt(options.retryCount, 10) }),
@@ -291,6 +358,7 @@ program
         ...(typeof options.skipProperNouns !== 'undefined' && { skipProperNouns: options.skipProperNouns }),
         ...(typeof options.skipCodeBlocks !== 'undefined' && { skipCodeBlocks: options.skipCodeBlocks }),
         ...(typeof options.autoDetect !== 'undefined' && { autoDetectLanguage: options.autoDetect }),
+        ...(typeof options.overwrite !== 'undefined' && { overwriteTranslations: options.overwrite }),
 
         // 进度和报告设置
         ...(typeof options.progress !== 'undefined' && { showProgressBar: options.progress }),
@@ -299,6 +367,58 @@ program
           ...(options.report && { reportFormat: options.report === true ? 'markdown' : options.report })
         }),
 
+        // CSV 设置
+        ...((options.csvColumns || options.csvDelimiter || options.csvAppend) && {
+          csv: {
+            ...config.csv,
+            ...(options.csvColumns && { columns: options.csvColumns.split(',').map((c: string) => c.trim()).filter(Boolean) }),
+            ...(options.csvDelimiter && { delimiter: options.csvDelimiter === '\\t' ? '\t' : options.csvDelimiter }),
+            ...(options.csvAppend && { appendColumns: true }),
+          }
+        }),
+
+        // 翻译记忆库设置
+        ...(options.tm === false && {
+          translationMemory: { ...config.translationMemory, enabled: false }
+        }),
+
+        // 术语表设置
+        ...((options.glossary || options.glossaryRepair) && {
+          glossary: {
+            files: options.glossary ? options.glossary.split(',').map((f: string) => f.trim()).filter(Boolean) : config.glossary.files,
+            mode: options.glossaryRepair ? 'repair' as const : config.glossary.mode,
+          }
+        }),
+
+        // 审校设置
+        ...((options.review || options.reviewModel || options.reviewApply) && {
+          review: {
+            ...config.review,
+            enabled: true,
+            ...(options.reviewModel && { model: options.reviewModel }),
+            ...(options.reviewApply && { autoApply: true }),
+          }
+        }),
+
+        // 回译评估设置
+        ...(options.qaJudge && {
+          backTranslation: { ...config.backTranslation, judge: true }
+        }),
+
+        // 译文质量检查设置
+        ...(options.validationPolicy && {
+          validation: { ...config.validation, policy: options.validationPolicy as ValidationPolicy }
+        }),
+
+        // 增量翻译设置
+        ...(options.incremental === false && { incremental: false }),
+
+        // 字幕设置
+        ...(options.subtitleMaxLine && { subtitleMaxLineLength: parseInt(options.subtitleMaxLine, 10) }),
+
+        // Notebook 设置
+        ...(options.notebookComments && { notebookTranslateComments: true }),
+
         // 双语对照翻译设置
         ...(typeof options.bilingual !== 'undefined' && {
           bilingualMode: {
@@ -311,7 +431,14 @@ program
         }),
       };
 
-      const translationOptions: TranslationOptions = {
+      // 继续翻译时重新应用上次运行的命令行配置，保证前后两部分文件使用相同的设置
+      const overrides = resumed ? resumed.configOverrides ?? {} : cliOverrides;
+      if (resumed && Object.keys(cliOverrides).length > 0 && JSON.stringify(cliOverrides) !== JSON.stringify(overrides)) {
+        logger.warn('继续翻译时沿用上次运行的命令行设置，本次指定的设置已忽略');
+      }
+      const mergedConfig: Config = { ...config, ...overrides };
+
+      const translationOptions: TranslationOptions = resumed ? { ...resumed, resume: true } : {
         input: options.input,
         output: options.output,
         languages: languagePair || { source: 'en' as LanguageCode, target: 'zh' },
@@ -320,11 +447,29 @@ program
         concurrency: mergedConfig.maxConcurrentTranslations,
         inputPricePerMillionTokens: mergedConfig.defaultInputPricePerMillionTokens,
         outputPricePerMillionTokens: mergedConfig.defaultOutputPricePerMillionTokens,
+        ...(options.i18n && { localeBundle: true }),
+        ...(xliffExport && { xliffExport }),
+        ...(importOnly && { xliffImport: options.importXliff }),
+        ...(options.force && { force: true }),
+        ...(options.qa && { qa: options.qa as QaMode }),
+        configOverrides: cliOverrides,
       };
 
       // 创建翻译器实例
       const translator = new Translator(mergedConfig);
 
+      // 导入 XLIFF 不调用模型，直接生成译文
+      if (importOnly) {
+        spinner.start('正在导入 XLIFF...');
+        const results = await translator.importXliff(translationOptions);
+        spinner.stop();
+
+        logger.success('\n导入完成！');
+        logger.info(`总文件数：${chalk.yellow(results.length.toString())}`);
+        rl.close();
+        process.exit(0);
+      }
+
       // 获取待翻译的文件列表
       const files = fs.statSync(options.input).isDirectory()
         ? translator.getAllFiles(options.input)
@@ -363,6 +508,9 @@ program
         process.exit(0);
       }
 
+      // 关闭命令行输入，Ctrl-C 才会作为 SIGINT 信号交给翻译器处理
+      rl.close();
+
       // 执行翻译
       const results = await translator.translate(translationOptions);
 
@@ -372,9 +520,37 @@ program
       const totalCost = results.reduce((sum, r) => sum + r.tokenUsage.estimatedCost, 0);
 
       logger.success('\n翻译完成！');
+      if (translationOptions.xliffExport) {
+        logger.info(`XLIFF 已导出：${chalk.cyan(path.join(options.output, 'translation.xlf'))}`);
+      }
       logger.info(`总文件数：${chalk.yellow(totalFiles.toString())}`);
+      const skippedFiles = results.filter(r => r.skipped).length;
+      if (skippedFiles > 0) {
+        logger.info(`未变更跳过：${chalk.yellow(skippedFiles.toString())}`);
+      }
+      const incompleteFiles = results.filter(r => r.incompleteUnits).length;
+      if (incompleteFiles > 0) {
+        logger.warn(`译文不完整（模型输出被截断或过滤）：${chalk.yellow(incompleteFiles.toString())}`);
+      }
+      // 路由到不同模型或切换到备用模型时列出各模型翻译的文件数
+      const modelFiles = new Map<string, number>();
+      results.forEach(r => r.models?.forEach(model => modelFiles.set(model, (modelFiles.get(model) ?? 0) + 1)));
+      if (modelFiles.size > 1) {
+        logger.info(`使用的模型：${Array.from(modelFiles, ([model, count]) => `${model}（${count} 个文件）`).join('，')}`);
+      }
       logger.info(`总Token数：${chalk.yellow(totalTokens.toLocaleString())}`);
-      logger.info(`总费用：${chalk.green('$' + totalCost.toFixed(6))}`);
+      const actual = translator.sumActualUsage(results);
+      if (actual) {
+        logger.info(`实际Token：输入 ${chalk.yellow(actual.inputTokens.toLocaleString())}，输出 ${chalk.yellow(actual.outputTokens.toLocaleString())}（${actual.requests} 次请求）`);
+        logger.info(`总费用：预估 ${chalk.green('$' + totalCost.toFixed(6))}，实际（约）${chalk.green('$' + actual.cost.toFixed(6))}`);
+      } else {
+        logger.info(`总费用：${chalk.green('$' + totalCost.toFixed(6))}`);
+      }
+
+      const memory = translator.sumMemoryStats(results);
+      if (memory) {
+        logger.info(`记忆库精确命中：${chalk.yellow(`${memory.exactHits}/${memory.lookups}`)}，节省费用：${chalk.green('$' + memory.savedCost.toFixed(6))}`);
+      }
 
       if (options.report) {
         logger.info(`\n报告已生成：${chalk.cyan(path.join(options.output, 'translation-report.' + options.report))}`);
@@ -400,4 +576,112 @@ program
     }
   });
 
+/**
+ * 显示错误信息并退出
+ */
+function exitWithError(error: unknown): never {
+  if (error instanceof APIError) {
+    logger.error(`\n${chalk.red('错误：')}${error.message}`);
+    logger.error(`${chalk.yellow('建议：')}${error.suggestion}`);
+  } else {
+    logger.error(`\n${chalk.red('意外错误：')}${(error as Error).message}`);
+  }
+  rl.close();
+  process.exit(1);
+}
+
+const tm = program
+  .command('tm')
+  .description('管理翻译记忆库');
+
+tm
+  .command('import <file>')
+  .description('从 TMX 文件导入翻译记忆')
+  .action(async (file: string) => {
+    try {
+      const config = loadConfig();
+      const memory = new TranslationMemory(config.translationMemory.path);
+      await memory.load();
+      const count = memory.importTmx(await fs.promises.readFile(file, 'utf-8'));
+      await memory.save();
+      logger.success(`已导入 ${count} 条翻译记忆，记忆库共 ${memory.size} 条`);
+      rl.close();
+      process.exit(0);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+tm
+  .command('export <file>')
+  .description('将翻译记忆库导出为 TMX 文件')
+  .action(async (file: string) => {
+    try {
+      const config = loadConfig();
+      const memory = new TranslationMemory(config.translationMemory.path);
+      await memory.load();
+      await fs.promises.writeFile(file, memory.exportTmx(), 'utf-8');
+      logger.success(`已导出 ${memory.size} 条翻译记忆：${file}`);
+      rl.close();
+      process.exit(0);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+const glossary = program
+  .command('glossary')
+  .description('管理术语表');
+
+glossary
+  .command('extract')
+  .description('从输入文件中提取候选术语并由模型给出建议译法，生成供审校的术语表')
+  .requiredOption('-i, --input <path>', '输入文件或目录路径')
+  .requiredOption('-o, --output <file>', '术语表文件（.csv / .json / .tbx）')
+  .requiredOption('-l, --languages <pair>', '语言对，格式：源语言-目标语言，例如：en-zh')
+  .option('--min-count <number>', '候选术语的最少出现次数', '2')
+  .option('--max-terms <number>', '最多提取的术语数', '100')
+  .action(async (options) => {
+    const spinner = ora();
+    try {
+      const languages = parseLanguagePair(options.languages);
+      if (!languages) {
+        throw new APIError(
+          '语言对格式错误',
+          -1,
+          '请使用正确的格式，例如：zh-en、en-ja。\n' +
+          '可以使用 --list-languages 查看支持的语言列表。'
+        );
+      }
+      if (!pathExists(options.input)) {
+        throw new APIError('输入路径不存在', -1, `请检查路径是否正确：${options.input}`);
+      }
+      // 提前检查输出格式，避免调用模型后才报错
+      serializeGlossary([], languages, options.output);
+
+      const translator = new Translator(loadConfig());
+      spinner.start('正在提取术语...');
+      const terms = await translator.extractGlossary({
+        input: options.input,
+        languages,
+        minCount: parseInt(options.minCount, 10),
+        maxTerms: parseInt(options.maxTerms, 10),
+      });
+      spinner.stop();
+
+      if (terms.length === 0) {
+        logger.warn('没有找到新的候选术语');
+      } else {
+        await fs.promises.writeFile(options.output, serializeGlossary(terms, languages, options.output), 'utf-8');
+        logger.success(`已提取 ${terms.length} 个术语：${options.output}`);
+        logger.info(`审校后可通过 --glossary ${options.output} 在翻译时使用`);
+      }
+      rl.close();
+      process.exit(0);
+    } catch (error) {
+      spinner.stop();
+      exitWithError(error);
+    }
+  });
+
 program.parse();
@@ -0,0 +1,162 @@
+import fs from 'fs';
+import path from 'path';
+import { TranslationOptions, TranslationResult, TranslationUnit, XliffFile } from './types';
+import { APIError, RUN_ERRORS } from './errors';
+import { ensureDir, pathExists } from './utils';
+
+/**
+ * 运行记录文件名（位于输出目录）
+ */
+export const JOURNAL_FILE_NAME = '.translation-journal.jsonl';
+
+/**
+ * 运行记录中的事件，每行一个 JSON
+ */
+type JournalEvent =
+  | { type: 'start'; options: TranslationOptions }
+  | { type: 'units'; file: string; units: TranslationUnit[] }
+  | { type: 'file'; file: string; result: TranslationResult; xliff?: XliffFile }
+  | { type: 'temp'; path: string };
+
+/**
+ * 运行记录：在文件和分段完成时追加写入，中断后可从记录处继续
+ */
+export class RunJournal {
+  private filePath: string;
+  private completed = new Map<string, { result: TranslationResult; xliff?: XliffFile }>();
+  private units = new Map<string, TranslationUnit[]>();
+  private tempFiles = new Set<string>();
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(outputDir: string) {
+    this.filePath = path.join(outputDir, JOURNAL_FILE_NAME);
+  }
+
+  /**
+   * 读取上次运行的翻译选项
+   */
+  public static async readOptions(outputDir: string): Promise<TranslationOptions> {
+    const journal = new RunJournal(outputDir);
+    const [first] = await journal.readEvents();
+    if (first?.type !== 'start') {
+      throw new APIError(RUN_ERRORS.NO_JOURNAL.message, -1, RUN_ERRORS.NO_JOURNAL.suggestion);
+    }
+    return first.options;
+  }
+
+  /**
+   * 开始新的运行，覆盖旧的记录
+   */
+  public async start(options: TranslationOptions): Promise<void> {
+    ensureDir(path.dirname(this.filePath));
+    const { resume, ...recorded } = options;
+    await fs.promises.writeFile(this.filePath, JSON.stringify({ type: 'start', options: recorded }) + '\n', 'utf-8');
+  }
+
+  /**
+   * 加载上次运行的记录，继续追加写入
+   */
+  public async resume(): Promise<void> {
+    for (const event of await this.readEvents()) {
+      if (event.type === 'units') {
+        this.units.set(event.file, [...(this.units.get(event.file) ?? []), ...event.units]);
+      } else if (event.type === 'file') {
+        this.completed.set(event.file, { result: event.result, xliff: event.xliff });
+        this.units.delete(event.file);
+      } else if (event.type === 'temp') {
+        this.tempFiles.add(event.path);
+      }
+    }
+  }
+
+  /**
+   * 获取已完成文件的结果
+   */
+  public getCompleted(file: string): { result: TranslationResult; xliff?: XliffFile } | undefined {
+    return this.completed.get(this.normalize(file));
+  }
+
+  /**
+   * 获取未完成文件中已翻译的分段
+   */
+  public getUnits(file: string): TranslationUnit[] {
+    return this.units.get(this.normalize(file)) ?? [];
+  }
+
+  /**
+   * 上次运行创建过的临时文件（异常退出时可能遗留）
+   */
+  public getTempFiles(): string[] {
+    return Array.from(this.tempFiles);
+  }
+
+  /**
+   * 记录即将创建的临时文件
+   */
+  public recordTempFile(tempPath: string): void {
+    this.append({ type: 'temp', path: path.resolve(tempPath) });
+  }
+
+  /**
+   * 记录刚完成的分段
+   */
+  public recordUnits(file: string, units: TranslationUnit[]): void {
+    this.append({ type: 'units', file: this.normalize(file), units });
+  }
+
+  /**
+   * 记录已完成的文件
+   */
+  public recordFile(file: string, result: TranslationResult, xliff?: XliffFile): void {
+    this.append({ type: 'file', file: this.normalize(file), result, ...(xliff && { xliff }) });
+  }
+
+  /**
+   * 等待所有记录写入磁盘
+   */
+  public async flush(): Promise<void> {
+    await this.writing;
+  }
+
+  /**
+   * 全部完成后删除记录
+   */
+  public async remove(): Promise<void> {
+    await this.flush();
+    await fs.promises.rm(this.filePath, { force: true });
+  }
+
+  /**
+   * 按顺序追加写入，避免并发写入交错
+   */
+  private append(event: JournalEvent): void {
+    const line = JSON.stringify(event) + '\n';
+    this.writing = this.writing.then(() => fs.promises.appendFile(this.filePath, line, 'utf-8'));
+  }
+
+  /**
+   * 读取全部事件，忽略进程异常退出时写了一半的最后一行
+   */
+  private async readEvents(): Promise<JournalEvent[]> {
+    if (!pathExists(this.filePath)) return [];
+
+    const content = await fs.promises.readFile(this.filePath, 'utf-8');
+    const events: JournalEvent[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        events.push(JSON.parse(line));
+      } catch {
+        break;
+      }
+    }
+    return events;
+  }
+
+  /**
+   * 统一使用 / 作为路径分隔符
+   */
+  private normalize(filePath: string): string {
+    return filePath.split(path.sep).join('/');
+  }
+}
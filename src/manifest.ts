@@ -0,0 +1,92 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { LanguageCode, ManifestEntry } from './types';
+import { APIError, FORMAT_ERRORS } from './errors';
+import { ensureDir, pathExists } from './utils';
+
+/**
+ * 清单文件名（位于输出目录）
+ */
+export const MANIFEST_FILE_NAME = '.translation-manifest.json';
+
+/**
+ * 清单文件格式版本（版本 2 起按目标语言分别记录）
+ */
+const MANIFEST_VERSION = 2;
+
+/**
+ * 计算内容的 SHA-256 哈希
+ */
+export function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * 翻译清单：按源文件和目标语言记录内容哈希、配置哈希、输出路径和各分段译文，用于增量翻译
+ */
+export class TranslationManifest {
+  private filePath: string;
+  private entries: Record<string, Partial<Record<LanguageCode, ManifestEntry>>> = {};
+  private dirty = false;
+
+  constructor(outputDir: string) {
+    this.filePath = path.join(outputDir, MANIFEST_FILE_NAME);
+  }
+
+  /**
+   * 从输出目录加载清单
+   */
+  public async load(): Promise<void> {
+    if (!pathExists(this.filePath)) return;
+
+    try {
+      const data = JSON.parse(await fs.promises.readFile(this.filePath, 'utf-8'));
+      // 旧版本的清单没有记录目标语言，无法判断译文文件属于哪种语言，不再使用
+      this.entries = data.version === MANIFEST_VERSION ? data.files ?? {} : {};
+    } catch {
+      throw new APIError(
+        FORMAT_ERRORS.PARSE_FAILED.message,
+        -1,
+        `${FORMAT_ERRORS.PARSE_FAILED.suggestion}（翻译清单：${this.filePath}，可删除后重新翻译）`
+      );
+    }
+  }
+
+  /**
+   * 将修改写回磁盘
+   */
+  public async save(): Promise<void> {
+    if (!this.dirty) return;
+
+    ensureDir(path.dirname(this.filePath));
+    const data = { version: MANIFEST_VERSION, files: this.entries };
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+    await fs.promises.rename(tempPath, this.filePath);
+    this.dirty = false;
+  }
+
+  /**
+   * 获取源文件（相对输入路径）译为目标语言的记录
+   */
+  public get(sourcePath: string, target: LanguageCode): ManifestEntry | undefined {
+    return this.entries[this.normalize(sourcePath)]?.[target];
+  }
+
+  /**
+   * 更新源文件译为目标语言的记录
+   */
+  public set(sourcePath: string, target: LanguageCode, entry: ManifestEntry): void {
+    const key = this.normalize(sourcePath);
+    this.entries[key] = { ...this.entries[key], [target]: entry };
+    this.dirty = true;
+  }
+
+  /**
+   * 统一使用 / 作为路径分隔符，保证清单跨平台可用
+   */
+  private normalize(filePath: string): string {
+    return filePath.split(path.sep).join('/');
+  }
+}
@@ -0,0 +1,99 @@
+import { MaskIssue } from './types';
+import { PlaceholderMap } from './placeholders';
+import { logger } from './utils';
+
+/**
+ * 内置的保护规则：URL 和邮箱优先于用户规则，其余在用户规则之后匹配
+ */
+const LEADING_PATTERNS = [
+  // URL
+  /\b[a-z][a-z0-9+.-]*:\/\/[^\s<>"'`)\]]*[^\s<>"'`)\].,;:!?]/gi,
+  // 邮箱
+  /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g,
+];
+
+const TRAILING_PATTERNS = [
+  // 绝对路径和 ./、../、~/ 开头的相对路径
+  /(?<![\w/.~])(?:~|\.{1,2})?\/[\w.-]+(?:\/[\w.-]+)*\/?/g,
+  // 带扩展名的相对路径，如 src/index.ts
+  /\b[\w-]+(?:\/[\w.-]+)+\.[A-Za-z0-9]+\b/g,
+  // Windows 路径
+  /\b[A-Za-z]:\\(?:[\w.-]+\\)*[\w.-]+/g,
+  // 语义化版本号
+  /\bv?\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?\b/g,
+  // 环境变量：$HOME、${API_KEY}、%PATH%、API_KEY
+  /\$\{[A-Za-z_]\w*\}|\$[A-Za-z_]\w*|%[A-Za-z_]\w*%|\b[A-Z][A-Z0-9]*(?:_[A-Z0-9]+)+\b/g,
+];
+
+/**
+ * 格式处理器等已有的占位符，不参与匹配
+ */
+const EXISTING_TOKEN_PATTERN = /⟦[A-Z]\d+⟧/g;
+
+/**
+ * 本地保护规则：请求前将匹配的内容替换为占位符，翻译后还原，并检查模型是否丢失或重复了占位符
+ */
+export class TextMasker {
+  private patterns: RegExp[];
+
+  constructor(userPatterns: string[], builtins: boolean) {
+    const compiled: RegExp[] = [];
+    for (const pattern of userPatterns) {
+      try {
+        compiled.push(new RegExp(pattern, 'g'));
+      } catch {
+        logger.warn(`专有名词模式无效，已忽略：${pattern}`);
+      }
+    }
+    this.patterns = builtins ? [...LEADING_PATTERNS, ...compiled, ...TRAILING_PATTERNS] : compiled;
+  }
+
+  /**
+   * 将匹配的内容替换为占位符（先匹配的规则优先，重叠的匹配忽略）
+   */
+  public mask(text: string): { text: string; placeholders: PlaceholderMap } {
+    const placeholders = new PlaceholderMap('K');
+    if (this.patterns.length === 0) return { text, placeholders };
+
+    const claimed = Array.from(text.matchAll(EXISTING_TOKEN_PATTERN), match => ({
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + match[0].length,
+      masked: false,
+    }));
+    const overlaps = (start: number, end: number) => claimed.some(range => start < range.end && end > range.start);
+
+    for (const pattern of this.patterns) {
+      for (const match of text.matchAll(pattern)) {
+        const start = match.index ?? 0;
+        const end = start + match[0].length;
+        if (end > start && !overlaps(start, end)) {
+          claimed.push({ start, end, masked: true });
+        }
+      }
+    }
+
+    let output = '';
+    let offset = 0;
+    for (const range of claimed.filter(range => range.masked).sort((a, b) => a.start - b.start)) {
+      output += text.slice(offset, range.start) + placeholders.add(text.slice(range.start, range.end));
+      offset = range.end;
+    }
+    return { text: output + text.slice(offset), placeholders };
+  }
+
+  /**
+   * 还原占位符，丢失或重复的占位符记录到 issues 中
+   */
+  public unmask(text: string, placeholders: PlaceholderMap, issues: MaskIssue[]): string {
+    if (placeholders.size === 0) return text;
+
+    const { missing, duplicated } = placeholders.check(text);
+    for (const token of missing) {
+      issues.push({ original: placeholders.lookup(token) ?? token, problem: 'dropped' });
+    }
+    for (const token of duplicated) {
+      issues.push({ original: placeholders.lookup(token) ?? token, problem: 'duplicated' });
+    }
+    return placeholders.restore(text, false);
+  }
+}
@@ -0,0 +1,223 @@
+import fs from 'fs';
+import path from 'path';
+import { parseDocument, DomUtils } from 'htmlparser2';
+import { LanguageCode, LanguagePair, MemoryEntry, MemoryMatch } from './types';
+import { APIError, FORMAT_ERRORS } from './errors';
+import { ensureDir, escapeXml, normalizeLanguageCode, pathExists } from './utils';
+
+/**
+ * 记忆库文件格式版本
+ */
+const MEMORY_VERSION = 1;
+
+/**
+ * 翻译记忆库：按原文、语言对和模型保存译文，精确命中时无需调用 API，相似原文的译文可作为参考
+ */
+export class TranslationMemory {
+  private filePath: string;
+  private entries = new Map<string, MemoryEntry>();
+  private loaded = false;
+  private dirty = false;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * 记忆库中的条目数
+   */
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * 从磁盘加载记忆库（只加载一次）
+   */
+  public async load(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+    if (!pathExists(this.filePath)) return;
+
+    try {
+      const data = JSON.parse(await fs.promises.readFile(this.filePath, 'utf-8'));
+      for (const entry of data.entries as MemoryEntry[]) {
+        this.entries.set(this.key(entry.source, entry.sourceLanguage, entry.targetLanguage, entry.model), entry);
+      }
+    } catch {
+      throw new APIError(
+        FORMAT_ERRORS.PARSE_FAILED.message,
+        -1,
+        `${FORMAT_ERRORS.PARSE_FAILED.suggestion}（翻译记忆库：${this.filePath}）`
+      );
+    }
+  }
+
+  /**
+   * 将修改写回磁盘
+   */
+  public async save(): Promise<void> {
+    if (!this.dirty) return;
+
+    ensureDir(path.dirname(path.resolve(this.filePath)));
+    const data = { version: MEMORY_VERSION, entries: Array.from(this.entries.values()) };
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+    await fs.promises.rename(tempPath, this.filePath);
+    this.dirty = false;
+  }
+
+  /**
+   * 精确查找：优先使用同一模型的译文，其次使用人工译文
+   */
+  public lookup(source: string, languages: LanguagePair, model: string): string | undefined {
+    const { source: from, target: to } = languages;
+    return (this.entries.get(this.key(source, from, to, model)) ?? this.entries.get(this.key(source, from, to, '')))?.target;
+  }
+
+  /**
+   * 模糊查找：返回同一语言对中相似度不低于阈值的译文，按相似度从高到低排列
+   */
+  public findSimilar(source: string, languages: LanguagePair, threshold: number, limit: number): MemoryMatch[] {
+    if (limit <= 0) return [];
+
+    const sourceBigrams = this.bigrams(source);
+    const matches = new Map<string, MemoryMatch>();
+
+    for (const entry of this.entries.values()) {
+      if (entry.sourceLanguage !== languages.source || entry.targetLanguage !== languages.target) continue;
+      if (entry.source === source || matches.has(entry.source)) continue;
+
+      // 长度差距过大时相似度不可能达到阈值
+      const shorter = Math.min(entry.source.length, source.length);
+      const longer = Math.max(entry.source.length, source.length);
+      if ((2 * shorter) / (shorter + longer) < threshold) continue;
+
+      const similarity = this.similarity(sourceBigrams, this.bigrams(entry.source));
+      if (similarity >= threshold) {
+        matches.set(entry.source, { source: entry.source, target: entry.target, similarity });
+      }
+    }
+
+    return Array.from(matches.values())
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+  }
+
+  /**
+   * 写入译文（相同原文、语言对和模型的旧译文会被覆盖）
+   */
+  public add(source: string, target: string, languages: LanguagePair, model: string): void {
+    if (!source.trim() || !target.trim()) return;
+
+    this.entries.set(this.key(source, languages.source, languages.target, model), {
+      source,
+      target,
+      sourceLanguage: languages.source,
+      targetLanguage: languages.target,
+      model,
+      createdAt: new Date().toISOString(),
+    });
+    this.dirty = true;
+  }
+
+  /**
+   * 删除指定模型的译文（如未通过质量检查的译文）
+   */
+  public remove(source: string, languages: LanguagePair, model: string): void {
+    if (this.entries.delete(this.key(source, languages.source, languages.target, model))) {
+      this.dirty = true;
+    }
+  }
+
+  /**
+   * 导入 TMX 文件，返回导入的条目数；导入的译文视为人工译文，可用于所有模型
+   */
+  public importTmx(content: string): number {
+    const document = parseDocument(content, { xmlMode: true });
+    const header = DomUtils.findOne(element => element.name === 'header', document.children);
+    const headerLanguage = header?.attribs.srclang;
+    let count = 0;
+
+    for (const unit of DomUtils.getElementsByTagName('tu', document.children, true)) {
+      const variants = DomUtils.getElementsByTagName('tuv', unit.children, false).map(variant => ({
+        language: normalizeLanguageCode(variant.attribs['xml:lang'] ?? variant.attribs.lang),
+        text: DomUtils.textContent(DomUtils.getElementsByTagName('seg', variant.children, false)),
+      }));
+
+      // 源语言以 tu 或 header 的 srclang 为准，否则取第一个 tuv
+      const sourceLanguage = normalizeLanguageCode(unit.attribs.srclang ?? headerLanguage) ?? variants[0]?.language;
+      const source = variants.find(variant => variant.language === sourceLanguage);
+      if (!sourceLanguage || !source) continue;
+
+      for (const variant of variants) {
+        if (variant === source || !variant.language) continue;
+        this.add(source.text, variant.text, { source: sourceLanguage, target: variant.language }, '');
+        count++;
+      }
+    }
+
+    return count;
+  }
+
+  /**
+   * 导出为 TMX 1.4
+   */
+  public exportTmx(): string {
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<tmx version="1.4">',
+      '  <header creationtool="gpt-translator" creationtoolversion="1.0.0" segtype="block" o-tmf="gpt-translator" adminlang="en" srclang="*all*" datatype="plaintext"/>',
+      '  <body>',
+    ];
+
+    for (const entry of this.entries.values()) {
+      const date = entry.createdAt.replace(/[-:]/g, '').replace(/\.\d+/, '');
+      lines.push(`    <tu srclang="${entry.sourceLanguage}" creationdate="${date}">`);
+      if (entry.model) {
+        lines.push(`      <prop type="x-model">${escapeXml(entry.model)}</prop>`);
+      }
+      lines.push(
+        `      <tuv xml:lang="${entry.sourceLanguage}"><seg>${escapeXml(entry.source)}</seg></tuv>`,
+        `      <tuv xml:lang="${entry.targetLanguage}"><seg>${escapeXml(entry.target)}</seg></tuv>`,
+        '    </tu>'
+      );
+    }
+
+    lines.push('  </body>', '</tmx>', '');
+    return lines.join('\n');
+  }
+
+  /**
+   * 条目的唯一键
+   */
+  private key(source: string, sourceLanguage: LanguageCode, targetLanguage: LanguageCode, model: string): string {
+    return JSON.stringify([sourceLanguage, targetLanguage, model, source]);
+  }
+
+  /**
+   * 字符二元组（忽略空白）
+   */
+  private bigrams(text: string): Map<string, number> {
+    const chars = Array.from(text.replace(/\s+/g, ' ').trim().toLowerCase());
+    const result = new Map<string, number>();
+    for (let i = 0; i < chars.length - 1; i++) {
+      const bigram = chars[i] + chars[i + 1];
+      result.set(bigram, (result.get(bigram) ?? 0) + 1);
+    }
+    return result;
+  }
+
+  /**
+   * Dice 系数：2 × 共同二元组数 / 二元组总数
+   */
+  private similarity(a: Map<string, number>, b: Map<string, number>): number {
+    let common = 0;
+    let total = 0;
+    for (const [bigram, count] of a) {
+      common += Math.min(count, b.get(bigram) ?? 0);
+      total += count;
+    }
+    for (const count of b.values()) total += count;
+    return total === 0 ? 0 : (2 * common) / total;
+  }
+}
@@ -27,6 +27,30 @@ export class MetadataManager {
     ].join('\n');
   }
 
+  /**
+   * 生成键值形式的元数据（用于 PO 头部等）
+   */
+  generateFields(options: TranslationOptions): Record<string, string> {
+    const fields: Record<string, string> = {
+      'Source-Language': options.languages.source,
+      'Target-Language': options.languages.target,
+    };
+
+    if (this.template.includeTimestamp) {
+      fields['Timestamp'] = new Date().toISOString();
+    }
+
+    if (this.template.includeModel) {
+      fields['Model'] = this.getModelName(options);
+    }
+
+    if (this.template.customFields) {
+      Object.assign(fields, this.template.customFields);
+    }
+
+    return fields;
+  }
+
   /**
    * 生成元数据内容
    */
@@ -48,7 +72,7 @@ export class MetadataManager {
 
     // 模型信息
     if (this.template.includeModel) {
-      lines.push(`使用模型：${this.config.modelName}`);
+      lines.push(`使用模型：${this.getModelName(options)}`);
     }
 
     // 翻译配置
@@ -71,6 +95,15 @@ export class MetadataManager {
     return lines.join('\n');
   }
 
+  /**
+   * 文件实际使用的模型（切换到备用模型时有多个），全部沿用记忆库译文时为首选模型
+   */
+  private getModelName(options: TranslationOptions): string {
+    const chain = options.modelChain;
+    if (!chain) return this.config.modelName;
+    return chain.used.length > 0 ? chain.used.join(', ') : chain.targets[0].model;
+  }
+
   /**
    * 应用元数据模板
    */
@@ -89,7 +122,7 @@ export class MetadataManager {
 
     // 替换模型信息
     if (this.template.includeModel) {
-      content = content.replace('{MODEL}', this.config.modelName);
+      content = content.replace('{MODEL}', this.getModelName(options));
     }
 
     // 替换配置信息
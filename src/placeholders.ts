@@ -0,0 +1,114 @@
+import { PlaceholderCheck } from './types';
+import { APIError, FORMAT_ERRORS } from './errors';
+
+/**
+ * 占位符说明，附加到系统提示词中
+ */
+export const PLACEHOLDER_PROMPT = '文本中形如 ⟦P0⟧、⟦K0⟧ 的占位符代表受保护的内容，请原样保留在译文的对应位置，不要翻译、修改、删除或新增占位符。';
+
+/**
+ * 任意前缀的占位符
+ */
+const TOKEN_PATTERN = /⟦([A-Z])\d+⟧/g;
+
+/**
+ * 按出现顺序将文本中的占位符重新编号（每种前缀分别从 0 开始），
+ * 使编号与文档中其他位置的占位符数量无关；返回重新编号后的文本和原占位符到新占位符的对应关系
+ */
+export function renumberPlaceholders(text: string): { text: string; mapping: Map<string, string> } {
+  const mapping = new Map<string, string>();
+  const counts = new Map<string, number>();
+  for (const [token, prefix] of text.matchAll(TOKEN_PATTERN)) {
+    if (mapping.has(token)) continue;
+    const index = counts.get(prefix) ?? 0;
+    counts.set(prefix, index + 1);
+    mapping.set(token, `⟦${prefix}${index}⟧`);
+  }
+  return { text: replacePlaceholders(text, mapping), mapping };
+}
+
+/**
+ * 按对应关系一次性替换文本中的占位符，不在对应关系中的占位符保持不变
+ */
+export function replacePlaceholders(text: string, mapping: Map<string, string>): string {
+  return text.replace(TOKEN_PATTERN, token => mapping.get(token) ?? token);
+}
+
+export class PlaceholderMap {
+  private values: string[] = [];
+  private prefix: string;
+
+  /**
+   * prefix 用于区分不同来源的占位符（格式处理器为 P，本地保护规则为 K）
+   */
+  constructor(prefix = 'P') {
+    this.prefix = prefix;
+  }
+
+  /**
+   * 登记受保护的内容，返回对应的占位符
+   */
+  public add(original: string): string {
+    this.values.push(original);
+    return this.token(this.values.length - 1);
+  }
+
+  /**
+   * 已登记的占位符数量
+   */
+  public get size(): number {
+    return this.values.length;
+  }
+
+  /**
+   * 获取占位符对应的原始内容
+   */
+  public lookup(token: string): string | undefined {
+    const index = token.match(/^⟦[A-Z](\d+)⟧$/)?.[1];
+    return index === undefined ? undefined : this.values[Number(index)];
+  }
+
+  /**
+   * 检查译文中的占位符是否完整
+   */
+  public check(text: string): PlaceholderCheck {
+    const missing: string[] = [];
+    const duplicated: string[] = [];
+
+    this.values.forEach((_, index) => {
+      const token = this.token(index);
+      const count = text.split(token).length - 1;
+      if (count === 0) {
+        missing.push(token);
+      } else if (count > 1) {
+        duplicated.push(token);
+      }
+    });
+
+    return { missing, duplicated };
+  }
+
+  /**
+   * 将占位符还原为原始内容；strict 时有占位符丢失则抛出错误
+   */
+  public restore(text: string, strict = true): string {
+    const { missing } = this.check(text);
+    if (strict && missing.length > 0) {
+      throw new APIError(
+        FORMAT_ERRORS.PLACEHOLDER_LOST.message,
+        -1,
+        `${FORMAT_ERRORS.PLACEHOLDER_LOST.suggestion}（丢失：${missing.join(', ')}）`
+      );
+    }
+
+    const pattern = new RegExp(`⟦${this.prefix}(\\d+)⟧`, 'g');
+    return text.replace(pattern, (token, index) => this.values[Number(index)] ?? token);
+  }
+
+  /**
+   * 生成占位符
+   */
+  private token(index: number): string {
+    return `⟦${this.prefix}${index}⟧`;
+  }
+}
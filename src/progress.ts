@@ -138,6 +138,16 @@ export class ProgressManager {
     }
   }
 
+  /**
+   * 按已完成的分段数更新文件进度（保存前最多到 99%）
+   */
+  public updateChunkProgress(bar: SingleBar | null, completed: number, total: number): void {
+    if (bar && this.enabled) {
+      const progress = Math.min((completed / total) * 100, 99);
+      this.updateProgress(bar, progress, `翻译中 ${completed}/${total}`);
+    }
+  }
+
   /**
    * 更新总进度
    */
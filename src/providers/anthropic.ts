@@ -0,0 +1,142 @@
+import axios from 'axios';
+import { CompletionRequest, CompletionResult, Config, ModelProvider, ProviderName } from '../types';
+import { handleAPIError } from '../errors';
+import { toResponseHeaders } from '../ratelimit';
+import { readLines } from '../utils';
+
+/**
+ * Messages API 版本
+ */
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Messages API 必须指定 max_tokens，未配置 MAX_OUTPUT_TOKENS 时使用该值
+ */
+const DEFAULT_MAX_TOKENS = 4096;
+
+/**
+ * 结束原因对应的通用结束原因
+ */
+const STOP_REASONS: Record<string, string> = {
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  max_tokens: 'length',
+  refusal: 'content_filter',
+};
+
+/**
+ * Messages API 非流式响应中用到的字段
+ */
+interface MessageResponse {
+  content?: Array<{ type: string; text?: string }>;
+  stop_reason?: string | null;
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+/**
+ * Anthropic Messages API：系统提示词单独传递，结束原因和用量转换为通用格式
+ */
+export class AnthropicProvider implements ModelProvider {
+  public readonly name: ProviderName = 'anthropic';
+  private url: string;
+  private apiKey: string;
+  private maxTokens: number;
+
+  constructor(config: Config) {
+    // 兼容以 /v1 结尾的端点
+    this.url = `${config.apiEndpoint.replace(/\/+$/, '').replace(/\/v1$/, '')}/v1/messages`;
+    this.apiKey = config.apiKey;
+    this.maxTokens = config.maxOutputTokens || DEFAULT_MAX_TOKENS;
+  }
+
+  public async complete(request: CompletionRequest): Promise<CompletionResult> {
+    try {
+      const response = await axios.post<MessageResponse>(this.url, this.buildBody(request, false), {
+        headers: this.headers(),
+        signal: request.signal,
+      });
+
+      const data = response.data;
+      return {
+        content: (data.content ?? [])
+          .filter(block => block.type === 'text')
+          .map(block => block.text ?? '')
+          .join(''),
+        finishReason: this.toFinishReason(data.stop_reason),
+        usage: data.usage ? { inputTokens: data.usage.input_tokens, outputTokens: data.usage.output_tokens } : undefined,
+        headers: toResponseHeaders(response.headers),
+      };
+    } catch (error) {
+      throw handleAPIError(error);
+    }
+  }
+
+  public async stream(request: CompletionRequest): Promise<CompletionResult> {
+    try {
+      const response = await axios.post(this.url, this.buildBody(request, true), {
+        headers: this.headers(),
+        signal: request.signal,
+        responseType: 'stream',
+      });
+
+      let content = '';
+      let finishReason: string | null = null;
+      let inputTokens = 0;
+      let outputTokens = 0;
+      for await (const line of readLines(response.data)) {
+        if (!line.startsWith('data:')) continue;
+        const event = JSON.parse(line.slice(5));
+        switch (event.type) {
+          case 'message_start':
+            inputTokens = event.message?.usage?.input_tokens ?? inputTokens;
+            break;
+          case 'content_block_delta':
+            if (event.delta?.type === 'text_delta') content += event.delta.text;
+            break;
+          case 'message_delta':
+            finishReason = this.toFinishReason(event.delta?.stop_reason) ?? finishReason;
+            outputTokens = event.usage?.output_tokens ?? outputTokens;
+            break;
+          case 'error':
+            // 流中途的错误（如过载）只有错误类型，由 handleAPIError 按类型转换
+            throw Object.assign(new Error(event.error?.message || 'Stream error'), { error: event.error });
+        }
+      }
+      return { content, finishReason, usage: { inputTokens, outputTokens }, headers: toResponseHeaders(response.headers) };
+    } catch (error) {
+      throw handleAPIError(error);
+    }
+  }
+
+  /**
+   * 系统消息合并为 system 参数，其余消息按顺序传递
+   */
+  private buildBody(request: CompletionRequest, stream: boolean) {
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+    return {
+      model: request.model,
+      max_tokens: this.maxTokens,
+      temperature: request.temperature,
+      ...(system ? { system } : {}),
+      messages: request.messages
+        .filter(message => message.role !== 'system')
+        .map(message => ({ role: message.role, content: message.content })),
+      stream,
+    };
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'x-api-key': this.apiKey,
+      'anthropic-version': ANTHROPIC_VERSION,
+      'content-type': 'application/json',
+    };
+  }
+
+  private toFinishReason(reason: string | null | undefined): string | null {
+    return reason ? STOP_REASONS[reason] ?? reason : null;
+  }
+}
@@ -0,0 +1,20 @@
+import { AzureOpenAI } from 'openai';
+import { Config, ProviderName } from '../types';
+import { OpenAIProvider } from './openai';
+
+/**
+ * Azure OpenAI：请求发送到部署（未配置部署名称时以模型名称作为部署名称），并带上 api-version
+ */
+export class AzureProvider extends OpenAIProvider {
+  public readonly name: ProviderName = 'azure';
+
+  constructor(config: Config) {
+    super(config, new AzureOpenAI({
+      apiKey: config.apiKey,
+      endpoint: config.apiEndpoint,
+      apiVersion: config.azure.apiVersion,
+      deployment: config.azure.deployment || config.modelName,
+      maxRetries: 0,
+    }));
+  }
+}
@@ -0,0 +1,28 @@
+import { Config, ModelProvider } from '../types';
+import { APIError, PROVIDER_ERRORS } from '../errors';
+import { OpenAIProvider } from './openai';
+import { AnthropicProvider } from './anthropic';
+import { AzureProvider } from './azure';
+import { OllamaProvider } from './ollama';
+
+/**
+ * 根据配置创建模型提供商
+ */
+export function createProvider(config: Config): ModelProvider {
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAIProvider(config);
+    case 'anthropic':
+      return new AnthropicProvider(config);
+    case 'azure':
+      return new AzureProvider(config);
+    case 'ollama':
+      return new OllamaProvider(config);
+    default:
+      throw new APIError(
+        PROVIDER_ERRORS.UNSUPPORTED.message,
+        -1,
+        `${PROVIDER_ERRORS.UNSUPPORTED.suggestion}（当前：${config.provider}）`
+      );
+  }
+}
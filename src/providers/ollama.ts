@@ -0,0 +1,110 @@
+import axios from 'axios';
+import { CompletionRequest, CompletionResult, CompletionUsage, Config, ModelProvider, ProviderName } from '../types';
+import { handleAPIError } from '../errors';
+import { toResponseHeaders } from '../ratelimit';
+import { readLines } from '../utils';
+
+/**
+ * /api/chat 的响应（流式响应为每行一个）中用到的字段，最后一个响应的 done 为 true 并带有用量
+ */
+interface ChatChunk {
+  message?: { content?: string };
+  done?: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+/**
+ * 本地 Ollama 服务的 /api/chat 接口（流式响应为逐行的 JSON）
+ */
+export class OllamaProvider implements ModelProvider {
+  public readonly name: ProviderName = 'ollama';
+  private url: string;
+  private apiKey: string;
+  private maxOutputTokens: number;
+
+  constructor(config: Config) {
+    // 兼容 OpenAI 兼容接口的 /v1 端点
+    this.url = `${config.apiEndpoint.replace(/\/+$/, '').replace(/\/v1$/, '')}/api/chat`;
+    this.apiKey = config.apiKey;
+    this.maxOutputTokens = config.maxOutputTokens;
+  }
+
+  public async complete(request: CompletionRequest): Promise<CompletionResult> {
+    try {
+      const response = await axios.post<ChatChunk>(this.url, this.buildBody(request, false), {
+        headers: this.headers(),
+        signal: request.signal,
+      });
+      return {
+        content: response.data.message?.content || '',
+        finishReason: this.toFinishReason(response.data.done_reason),
+        usage: this.toUsage(response.data),
+        headers: toResponseHeaders(response.headers),
+      };
+    } catch (error) {
+      throw handleAPIError(error);
+    }
+  }
+
+  public async stream(request: CompletionRequest): Promise<CompletionResult> {
+    try {
+      const response = await axios.post(this.url, this.buildBody(request, true), {
+        headers: this.headers(),
+        signal: request.signal,
+        responseType: 'stream',
+      });
+
+      let content = '';
+      let finishReason: string | null = null;
+      let usage: CompletionUsage | undefined;
+      for await (const line of readLines(response.data)) {
+        if (!line.trim()) continue;
+        const chunk: ChatChunk = JSON.parse(line);
+        if (chunk.error) {
+          throw Object.assign(new Error(chunk.error), { response: { data: chunk } });
+        }
+        content += chunk.message?.content || '';
+        if (chunk.done) {
+          finishReason = this.toFinishReason(chunk.done_reason);
+          usage = this.toUsage(chunk);
+        }
+      }
+      return { content, finishReason, usage, headers: toResponseHeaders(response.headers) };
+    } catch (error) {
+      throw handleAPIError(error);
+    }
+  }
+
+  private buildBody(request: CompletionRequest, stream: boolean) {
+    return {
+      model: request.model,
+      messages: request.messages,
+      stream,
+      ...(request.json ? { format: 'json' } : {}),
+      options: {
+        temperature: request.temperature,
+        ...(this.maxOutputTokens > 0 ? { num_predict: this.maxOutputTokens } : {}),
+      },
+    };
+  }
+
+  /**
+   * 本地服务通常不需要认证，经反向代理访问时可通过 API_KEY 传递令牌
+   */
+  private headers(): Record<string, string> {
+    return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+  }
+
+  private toFinishReason(reason: string | undefined): string | null {
+    if (!reason) return null;
+    return reason === 'length' ? 'length' : 'stop';
+  }
+
+  private toUsage(data: ChatChunk): CompletionUsage | undefined {
+    if (data.prompt_eval_count === undefined && data.eval_count === undefined) return undefined;
+    return { inputTokens: data.prompt_eval_count ?? 0, outputTokens: data.eval_count ?? 0 };
+  }
+}
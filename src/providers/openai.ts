@@ -0,0 +1,81 @@
+import OpenAI from 'openai';
+import { CompletionRequest, CompletionResult, CompletionUsage, Config, ModelProvider, ProviderName } from '../types';
+import { handleAPIError } from '../errors';
+import { toResponseHeaders } from '../ratelimit';
+
+/**
+ * OpenAI 及兼容 Chat Completions 接口的提供商（DeepSeek、vLLM 等）
+ */
+export class OpenAIProvider implements ModelProvider {
+  public readonly name: ProviderName = 'openai';
+  protected client: OpenAI;
+  protected maxOutputTokens: number;
+
+  constructor(config: Config, client?: OpenAI) {
+    // 重试和限流由翻译器统一处理
+    this.client = client ?? new OpenAI({
+      apiKey: config.apiKey,
+      baseURL: config.apiEndpoint,
+      maxRetries: 0,
+    });
+    this.maxOutputTokens = config.maxOutputTokens;
+  }
+
+  public async complete(request: CompletionRequest): Promise<CompletionResult> {
+    try {
+      const { data: response, response: raw } = await this.client.chat.completions.create({
+        ...this.buildParams(request),
+        stream: false,
+      }, { signal: request.signal }).withResponse();
+
+      return {
+        content: response.choices[0]?.message?.content || '',
+        finishReason: response.choices[0]?.finish_reason ?? null,
+        usage: this.toUsage(response.usage),
+        headers: toResponseHeaders(raw.headers),
+      };
+    } catch (error) {
+      throw handleAPIError(error);
+    }
+  }
+
+  public async stream(request: CompletionRequest): Promise<CompletionResult> {
+    try {
+      const { data: stream, response: raw } = await this.client.chat.completions.create({
+        ...this.buildParams(request),
+        stream: true,
+        // 流式响应默认不返回用量，开启后最后一个数据块带有整个请求的用量
+        stream_options: { include_usage: true },
+      }, { signal: request.signal }).withResponse();
+
+      let content = '';
+      let finishReason: string | null = null;
+      let usage: CompletionUsage | undefined;
+      for await (const chunk of stream) {
+        content += chunk.choices[0]?.delta?.content || '';
+        finishReason = chunk.choices[0]?.finish_reason ?? finishReason;
+        usage = this.toUsage(chunk.usage) ?? usage;
+      }
+      return { content, finishReason, usage, headers: toResponseHeaders(raw.headers) };
+    } catch (error) {
+      throw handleAPIError(error);
+    }
+  }
+
+  /**
+   * 流式和非流式请求共用的参数
+   */
+  private buildParams(request: CompletionRequest) {
+    return {
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+      ...(this.maxOutputTokens > 0 ? { max_tokens: this.maxOutputTokens } : {}),
+    };
+  }
+
+  private toUsage(usage: OpenAI.CompletionUsage | null | undefined): CompletionUsage | undefined {
+    return usage ? { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens } : undefined;
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * chrF 的最大字符 n-gram 阶数
+ */
+const CHRF_MAX_ORDER = 6;
+
+/**
+ * chrF 中召回率相对准确率的权重（chrF2）
+ */
+const CHRF_BETA = 2;
+
+/**
+ * 统计字符 n-gram 的出现次数
+ */
+function characterNgrams(chars: string[], order: number): Map<string, number> {
+  const ngrams = new Map<string, number>();
+  for (let i = 0; i + order <= chars.length; i++) {
+    const ngram = chars.slice(i, i + order).join('');
+    ngrams.set(ngram, (ngrams.get(ngram) ?? 0) + 1);
+  }
+  return ngrams;
+}
+
+/**
+ * chrF 分数（0-100）：按 1 到 6 阶字符 n-gram 计算平均准确率和召回率的 F2 值，忽略空白、不区分大小写
+ * 文本短于某一阶时该阶不参与平均
+ */
+export function chrfScore(hypothesis: string, reference: string): number {
+  const hypothesisChars = Array.from(hypothesis.replace(/\s+/g, '').toLowerCase());
+  const referenceChars = Array.from(reference.replace(/\s+/g, '').toLowerCase());
+  if (hypothesisChars.length === 0 && referenceChars.length === 0) return 100;
+
+  let precisionSum = 0;
+  let recallSum = 0;
+  let orders = 0;
+  for (let order = 1; order <= CHRF_MAX_ORDER; order++) {
+    const hypothesisTotal = hypothesisChars.length - order + 1;
+    const referenceTotal = referenceChars.length - order + 1;
+    if (hypothesisTotal <= 0 || referenceTotal <= 0) break;
+
+    const referenceNgrams = characterNgrams(referenceChars, order);
+    let matches = 0;
+    for (const [ngram, count] of characterNgrams(hypothesisChars, order)) {
+      matches += Math.min(count, referenceNgrams.get(ngram) ?? 0);
+    }
+    precisionSum += matches / hypothesisTotal;
+    recallSum += matches / referenceTotal;
+    orders++;
+  }
+  if (orders === 0) return 0;
+
+  const precision = precisionSum / orders;
+  const recall = recallSum / orders;
+  if (precision + recall === 0) return 0;
+
+  const beta2 = CHRF_BETA * CHRF_BETA;
+  return (100 * (1 + beta2) * precision * recall) / (beta2 * precision + recall);
+}
@@ -0,0 +1,281 @@
+import { logger } from './utils';
+
+/**
+ * 响应头（键为小写）
+ */
+export type ResponseHeaders = Record<string, string>;
+
+/**
+ * 被限流后连续成功这么多次请求，并发数加一
+ */
+const RECOVERY_SUCCESSES = 5;
+
+/**
+ * 令牌桶：容量为每分钟的限额，按限额匀速补充
+ */
+class TokenBucket {
+  private level: number;
+  private updatedAt = Date.now();
+
+  constructor(private capacity: number) {
+    this.level = capacity;
+  }
+
+  /**
+   * 取出 amount 个令牌还需等待的毫秒数（超过容量的请求按容量计算，避免永远等不到）
+   */
+  public waitTime(amount: number): number {
+    this.refill();
+    const needed = Math.min(amount, this.capacity);
+    return this.level >= needed ? 0 : Math.ceil(((needed - this.level) * 60000) / this.capacity);
+  }
+
+  public take(amount: number): void {
+    this.refill();
+    this.level -= Math.min(amount, this.capacity);
+  }
+
+  /**
+   * 按服务端返回的剩余额度校正（只向下校正，服务端的计数包含其他客户端的用量）
+   */
+  public sync(remaining: number): void {
+    this.refill();
+    this.level = Math.min(this.level, remaining);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.level = Math.min(this.capacity, this.level + ((now - this.updatedAt) * this.capacity) / 60000);
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * 等待指定毫秒数，收到中止信号时提前结束
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+/**
+ * 解析时长：纯数字为秒，或 OpenAI 的 1s、6m0s、20ms 格式
+ */
+function parseDuration(value: string): number | undefined {
+  if (/^\d+(\.\d+)?$/.test(value.trim())) return Number(value) * 1000;
+  const parts = Array.from(value.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g));
+  if (parts.length === 0) return undefined;
+  const units: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000 };
+  return parts.reduce((sum, [, amount, unit]) => sum + Number(amount) * units[unit], 0);
+}
+
+/**
+ * 解析重置时间：时长或 Anthropic 的 RFC 3339 时间
+ */
+function parseReset(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const duration = parseDuration(value);
+  if (duration !== undefined) return duration;
+  const time = Date.parse(value);
+  return isNaN(time) ? undefined : Math.max(0, time - Date.now());
+}
+
+/**
+ * SDK 返回的响应头：fetch 的 Headers（openai SDK）、axios 的响应头（可转换为普通对象）或普通对象
+ */
+export type RawResponseHeaders =
+  | { entries(): Iterable<[string, string]> }
+  | { toJSON(): object }
+  | Record<string, unknown>;
+
+/**
+ * 将 fetch、axios 或 openai SDK 的响应头转换为键为小写的对象
+ */
+export function toResponseHeaders(headers: RawResponseHeaders | null | undefined): ResponseHeaders {
+  if (!headers) return {};
+  let entries: Array<[string, unknown]>;
+  if ('entries' in headers && typeof headers.entries === 'function') {
+    entries = Array.from((headers as { entries(): Iterable<[string, string]> }).entries());
+  } else if ('toJSON' in headers && typeof headers.toJSON === 'function') {
+    entries = Object.entries((headers as { toJSON(): object }).toJSON());
+  } else {
+    entries = Object.entries(headers);
+  }
+  return Object.fromEntries(
+    entries.filter(([, value]) => value !== undefined && value !== null).map(([key, value]) => [key.toLowerCase(), String(value)])
+  );
+}
+
+/**
+ * 服务端的限额信息：OpenAI / Azure 为 x-ratelimit-*，Anthropic 为 anthropic-ratelimit-*
+ */
+export function parseRateLimitHeaders(headers: ResponseHeaders): Record<'requests' | 'tokens', { limit?: number; remaining?: number; reset?: number }> {
+  const read = (kind: 'requests' | 'tokens') => {
+    const number = (value: string | undefined) => value !== undefined && value !== '' && !isNaN(Number(value)) ? Number(value) : undefined;
+    return {
+      limit: number(headers[`x-ratelimit-limit-${kind}`] ?? headers[`anthropic-ratelimit-${kind}-limit`]),
+      remaining: number(headers[`x-ratelimit-remaining-${kind}`] ?? headers[`anthropic-ratelimit-${kind}-remaining`]),
+      reset: parseReset(headers[`x-ratelimit-reset-${kind}`] ?? headers[`anthropic-ratelimit-${kind}-reset`]),
+    };
+  };
+  return { requests: read('requests'), tokens: read('tokens') };
+}
+
+/**
+ * 服务端要求的等待时间（毫秒）：retry-after-ms（OpenAI）或 Retry-After（秒数或 HTTP 日期）
+ */
+export function parseRetryAfter(headers: ResponseHeaders): number | undefined {
+  const retryAfterMs = Number(headers['retry-after-ms']);
+  if (retryAfterMs > 0) return retryAfterMs;
+
+  const retryAfter = headers['retry-after'];
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const time = Date.parse(retryAfter);
+    if (!isNaN(time)) return Math.max(0, time - Date.now());
+  }
+  return undefined;
+}
+
+export interface RateLimiterOptions {
+  /** 每分钟请求数上限（0 表示以服务端返回的限额为准） */
+  requestsPerMinute: number;
+  /** 每分钟 token 数上限（0 表示以服务端返回的限额为准） */
+  tokensPerMinute: number;
+  /** 最大并发请求数 */
+  maxConcurrency: number;
+  /** 被限流且服务端未给出等待时间时的初始等待时间（毫秒） */
+  baseDelay: number;
+  /** 最长等待时间（毫秒） */
+  maxDelay: number;
+}
+
+/**
+ * 限流器：按每分钟请求数和 token 数的令牌桶放行请求，
+ * 根据响应头校正剩余额度，被限流时暂停所有请求并减半并发数，之后逐步恢复
+ */
+export class RateLimiter {
+  private options: RateLimiterOptions;
+  private requests: TokenBucket | null;
+  private tokens: TokenBucket | null;
+  private concurrency: number;
+  private inFlight = 0;
+  private waiters: Array<() => void> = [];
+  private pausedUntil = 0;
+  private throttleCount = 0;
+  private successCount = 0;
+
+  constructor(options: RateLimiterOptions) {
+    this.options = options;
+    this.requests = options.requestsPerMinute > 0 ? new TokenBucket(options.requestsPerMinute) : null;
+    this.tokens = options.tokensPerMinute > 0 ? new TokenBucket(options.tokensPerMinute) : null;
+    this.concurrency = Math.max(1, options.maxConcurrency);
+  }
+
+  /**
+   * 等待并发名额和额度，放行后占用一个并发名额（请求结束后调用 release）
+   * @param tokens 本次请求预计消耗的 token 数（输入和输出）
+   */
+  public async acquire(tokens: number, signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      if (signal?.aborted) break;
+      if (this.inFlight >= this.concurrency) {
+        await new Promise<void>(resolve => this.waiters.push(resolve));
+        continue;
+      }
+      const wait = Math.max(
+        this.pausedUntil - Date.now(),
+        this.requests?.waitTime(1) ?? 0,
+        this.tokens?.waitTime(tokens) ?? 0
+      );
+      if (wait <= 0) break;
+      await sleep(wait, signal);
+    }
+
+    this.requests?.take(1);
+    this.tokens?.take(tokens);
+    this.inFlight++;
+  }
+
+  /**
+   * 释放并发名额，并按响应头校正额度
+   * @param headers 响应头（请求失败时为错误响应的响应头）
+   */
+  public release(headers?: ResponseHeaders): void {
+    this.inFlight--;
+    if (headers) this.update(headers);
+    this.wakeUp();
+  }
+
+  /**
+   * 请求成功：连续成功一定次数后逐步恢复并发数
+   */
+  public onSuccess(): void {
+    this.throttleCount = 0;
+    if (this.concurrency >= this.options.maxConcurrency) return;
+    if (++this.successCount >= RECOVERY_SUCCESSES) {
+      this.successCount = 0;
+      this.concurrency++;
+      this.wakeUp();
+    }
+  }
+
+  /**
+   * 被限流（429）或服务器过载（503）：暂停所有请求，并发数减半
+   * @param retryAfter 服务端要求的等待时间（毫秒），未给出时按连续被限流的次数递增
+   * @returns 实际等待的毫秒数
+   */
+  public onThrottled(retryAfter?: number): number {
+    this.throttleCount++;
+    this.successCount = 0;
+    const wait = retryAfter ?? Math.min(this.options.baseDelay * Math.pow(2, this.throttleCount - 1), this.options.maxDelay);
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + wait);
+
+    const concurrency = Math.max(1, Math.floor(this.concurrency / 2));
+    if (concurrency < this.concurrency) {
+      logger.warn(`请求被限流，并发数降为 ${concurrency}`);
+      this.concurrency = concurrency;
+    }
+    return wait;
+  }
+
+  /**
+   * 按响应头校正额度：未配置限额时以服务端的限额为准，
+   * 剩余额度耗尽时暂停到重置时间（重置时间是额度完全恢复的时间，因此不超过最长等待时间）
+   */
+  private update(headers: ResponseHeaders): void {
+    const limits = parseRateLimitHeaders(headers);
+    if (!this.requests && limits.requests.limit) {
+      this.requests = new TokenBucket(limits.requests.limit);
+    }
+    if (!this.tokens && limits.tokens.limit) {
+      this.tokens = new TokenBucket(limits.tokens.limit);
+    }
+    if (limits.requests.remaining !== undefined) this.requests?.sync(limits.requests.remaining);
+    if (limits.tokens.remaining !== undefined) this.tokens?.sync(limits.tokens.remaining);
+
+    for (const limit of [limits.requests, limits.tokens]) {
+      if (limit.remaining === 0 && limit.reset !== undefined) {
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + Math.min(limit.reset, this.options.maxDelay));
+      }
+    }
+  }
+
+  /**
+   * 唤醒等待并发名额的请求，由它们重新检查名额和额度
+   */
+  private wakeUp(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+}
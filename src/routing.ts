@@ -0,0 +1,117 @@
+import { ActualUsage, Config, ModelChain, ModelProvider, ModelTarget } from './types';
+import { createProvider } from './providers';
+import { RateLimiter } from './ratelimit';
+import { matchGlob } from './utils';
+
+/**
+ * 文件大小条件，如 >100kb、<1mb
+ */
+const SIZE_PATTERN = /^([<>])\s*(\d+(?:\.\d+)?)\s*(b|kb|mb)?$/i;
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 * 1024,
+};
+
+/**
+ * 模型路由：按规则为文件选择首选模型，并为每个模型创建（复用）提供商
+ */
+export class ModelRouter {
+  private config: Config;
+  private providers = new Map<string, ModelProvider>();
+  private rateLimiters = new Map<string, RateLimiter>();
+
+  constructor(config: Config) {
+    this.config = config;
+  }
+
+  /**
+   * 首选模型（PROVIDER、API_ENDPOINT、API_KEY、MODEL_NAME）
+   */
+  public get primary(): ModelTarget {
+    const { provider, modelName, apiEndpoint, apiKey } = this.config;
+    return { provider, model: modelName, apiEndpoint, apiKey };
+  }
+
+  /**
+   * 按路由规则选择文件的首选模型，没有匹配的规则时使用默认的首选模型
+   * @param relativePath 相对输入目录的路径
+   * @param size 文件大小（字节）
+   */
+  public resolve(relativePath: string, size: number): ModelTarget {
+    const filePath = relativePath.split('\\').join('/');
+    return this.config.modelRoutes.find(route => this.matches(route.pattern, filePath, size))?.target ?? this.primary;
+  }
+
+  /**
+   * 创建模型链：首选模型之后依次为备用模型（与首选模型相同的备用模型跳过）
+   * @param usage 记录实际用量的对象，同一文件的多个模型链共用一个
+   */
+  public createChain(
+    primary: ModelTarget = this.primary,
+    usage: ActualUsage = { requests: 0, inputTokens: 0, outputTokens: 0, estimatedRequests: 0 }
+  ): ModelChain {
+    const fallbacks = this.config.fallbackModels.filter(target => this.key(target) !== this.key(primary));
+    return { targets: [primary, ...fallbacks], active: 0, used: [], usage };
+  }
+
+  /**
+   * 获取模型所在提供商的客户端（相同的提供商、端点和模型只创建一次）
+   */
+  public getProvider(target: ModelTarget): ModelProvider {
+    const key = this.key(target);
+    let provider = this.providers.get(key);
+    if (!provider) {
+      const isPrimary = key === this.key(this.primary);
+      provider = createProvider({
+        ...this.config,
+        provider: target.provider,
+        apiEndpoint: target.apiEndpoint,
+        apiKey: target.apiKey,
+        modelName: target.model,
+        // AZURE_DEPLOYMENT 只适用于首选模型，其他 Azure 模型以模型名称作为部署名称
+        azure: { ...this.config.azure, deployment: isPrimary ? this.config.azure.deployment : '' },
+      });
+      this.providers.set(key, provider);
+    }
+    return provider;
+  }
+
+  /**
+   * 获取模型的限流器（所有文件的请求共用，不同模型的额度分别计算）
+   */
+  public getRateLimiter(target: ModelTarget): RateLimiter {
+    const key = this.key(target);
+    let limiter = this.rateLimiters.get(key);
+    if (!limiter) {
+      limiter = new RateLimiter({
+        ...this.config.rateLimit,
+        maxConcurrency: this.config.maxConcurrentTranslations,
+        baseDelay: this.config.retryDelay || 1000,
+        maxDelay: this.config.maxRetryDelay || 30000,
+      });
+      this.rateLimiters.set(key, limiter);
+    }
+    return limiter;
+  }
+
+  /**
+   * 判断文件是否满足路由条件：文件大小、扩展名或 glob
+   */
+  private matches(pattern: string, filePath: string, size: number): boolean {
+    const sizeMatch = pattern.match(SIZE_PATTERN);
+    if (sizeMatch) {
+      const limit = Number(sizeMatch[2]) * SIZE_UNITS[(sizeMatch[3] || 'b').toLowerCase()];
+      return sizeMatch[1] === '>' ? size > limit : size < limit;
+    }
+    if (/^\.[\w.-]+$/.test(pattern)) {
+      return filePath.toLowerCase().endsWith(pattern.toLowerCase());
+    }
+    return matchGlob(filePath, pattern);
+  }
+
+  private key(target: ModelTarget): string {
+    return JSON.stringify([target.provider, target.apiEndpoint, target.apiKey, target.model]);
+  }
+}
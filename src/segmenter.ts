@@ -0,0 +1,135 @@
+import { TextChunk } from './types';
+
+export class Segmenter {
+  private maxTokens: number;
+  private countTokens: (text: string) => number;
+
+  constructor(maxTokens: number, countTokens: (text: string) => number) {
+    this.maxTokens = Math.max(1, maxTokens);
+    this.countTokens = countTokens;
+  }
+
+  /**
+   * 将内容切分为多个分段，所有分段按顺序拼接后与原文完全一致
+   */
+  public split(content: string): TextChunk[] {
+    const pieces = this.splitBlocks(content).flatMap(block =>
+      this.countTokens(block) > this.maxTokens ? this.splitOversized(block) : [block]
+    );
+
+    const raws: string[] = [];
+    let current = '';
+    let currentTokens = 0;
+
+    for (const piece of pieces) {
+      const tokens = this.countTokens(piece);
+      // 超出预算时换段；已接近预算时优先在标题处换段
+      const overBudget = currentTokens + tokens > this.maxTokens;
+      const headingBreak = this.isHeading(piece) && currentTokens >= this.maxTokens / 2;
+      if (current.trim() && (overBudget || headingBreak)) {
+        raws.push(current);
+        current = '';
+        currentTokens = 0;
+      }
+      current += piece;
+      currentTokens += tokens;
+    }
+
+    if (current || raws.length === 0) {
+      raws.push(current);
+    }
+
+    return raws.map(raw => {
+      const [, prefix, text, suffix] = raw.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+      return { prefix, text, suffix };
+    });
+  }
+
+  /**
+   * 将译文按分段重新拼接，保留原文中的空白字符
+   */
+  public join(chunks: TextChunk[], translations: string[]): string {
+    return chunks
+      .map((chunk, index) => chunk.prefix + (chunk.text ? translations[index] : '') + chunk.suffix)
+      .join('');
+  }
+
+  /**
+   * 按结构边界（标题、空行分隔的段落）切分，代码块保持完整
+   */
+  private splitBlocks(content: string): string[] {
+    const lines = content.match(/[^\n]*\n|[^\n]+$/g) || [];
+    const blocks: string[] = [];
+    let current = '';
+    let fence: string | null = null;
+    let afterBlank = false;
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+
+      if (!fence && current && trimmed && (afterBlank || this.isHeading(trimmed))) {
+        blocks.push(current);
+        current = '';
+      }
+      current += line;
+
+      const fenceMatch = trimmed.match(/^(`{3,}|~{3,})/);
+      if (fenceMatch) {
+        if (!fence) {
+          fence = fenceMatch[1];
+        } else if (trimmed.startsWith(fence) && !trimmed.slice(fence.length).replace(/[`~]/g, '').trim()) {
+          fence = null;
+        }
+      }
+
+      afterBlank = !fence && !trimmed;
+    }
+
+    if (current) {
+      blocks.push(current);
+    }
+
+    return blocks;
+  }
+
+  /**
+   * 拆分超出预算的段落：先按行，再按句子，最后按字符硬切
+   */
+  private splitOversized(block: string): string[] {
+    const lines = block.match(/[^\n]*\n|[^\n]+$/g) || [block];
+    if (lines.length > 1) {
+      return lines.flatMap(line =>
+        this.countTokens(line) > this.maxTokens ? this.splitOversized(line) : [line]
+      );
+    }
+
+    const sentences = block.match(/[^.!?。！？；;]*[.!?。！？；;]+\s*|[^.!?。！？；;]+$/g) || [block];
+    if (sentences.length > 1 && sentences.join('') === block) {
+      return sentences.flatMap(sentence =>
+        this.countTokens(sentence) > this.maxTokens ? this.hardSplit(sentence) : [sentence]
+      );
+    }
+
+    return this.hardSplit(block);
+  }
+
+  /**
+   * 按字符数硬切（按 token 密度估算每段长度）
+   */
+  private hardSplit(text: string): string[] {
+    const tokens = this.countTokens(text);
+    const size = Math.max(1, Math.floor(text.length * this.maxTokens / Math.max(tokens, 1)));
+    const pieces: string[] = [];
+    for (let i = 0; i < text.length; i += size) {
+      pieces.push(text.slice(i, i + size));
+    }
+    return pieces;
+  }
+
+  /**
+   * 判断是否为 Markdown 标题
+   */
+  private isHeading(text: string): boolean {
+    return /^\s{0,3}#{1,6}(\s|$)/.test(text);
+  }
+}
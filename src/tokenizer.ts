@@ -0,0 +1,88 @@
+import { getEncoding, Tiktoken, TiktokenEncoding } from 'js-tiktoken';
+import { Tokenizer, TokenizerName, TOKENIZER_NAMES } from './types';
+import { logger } from './utils';
+
+/**
+ * 计 2 个 token 的字符：汉字（含扩展 A）、日文假名（含半角片假名）、韩文（音节、字母）以及中日韩标点和全角字符
+ */
+const WIDE_CHAR_PATTERN = /[\u1100-\u11ff\u3000-\u303f\u3040-\u30ff\u3130-\u318f\u31f0-\u31ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uff00-\uff9f]/g;
+
+/**
+ * 模型名称对应的分词器，按顺序匹配（gpt-4o 需在 gpt-4 之前）
+ */
+const MODEL_TOKENIZERS: Array<{ pattern: RegExp; tokenizer: TokenizerName }> = [
+  { pattern: /^(gpt-4o|chatgpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|gpt-oss|o\d)/, tokenizer: 'o200k' },
+  { pattern: /^(gpt-4|gpt-3\.5|gpt-35|text-embedding-3|text-embedding-ada-002)/, tokenizer: 'cl100k' },
+];
+
+/**
+ * 按字符类型估算 token 数（参考 DeepSeek 的算法：https://api-docs.deepseek.com/zh-cn/quick_start/token_usage）
+ */
+class HeuristicTokenizer implements Tokenizer {
+  public readonly name = 'heuristic';
+
+  public count(text: string): number {
+    // 中日韩字符（包括标点）算 2 个 token
+    const wideChars = text.match(WIDE_CHAR_PATTERN) || [];
+    const rest = text.replace(WIDE_CHAR_PATTERN, ' ');
+    // 英文单词和数字算 1 个 token
+    const englishAndNumbers = rest.match(/[a-zA-Z0-9]+/g) || [];
+    // 其他字符（标点符号等）算 1 个 token
+    const otherChars = rest.match(/[^a-zA-Z0-9\s]/g) || [];
+
+    return wideChars.length * 2 + englishAndNumbers.length + otherChars.length;
+  }
+}
+
+/**
+ * 使用随程序分发的 BPE 词表在本地计算 token 数，词表在第一次计数时加载
+ */
+class BpeTokenizer implements Tokenizer {
+  private encoding: Tiktoken | null = null;
+
+  constructor(public readonly name: TokenizerName, private encodingName: TiktokenEncoding) {}
+
+  public count(text: string): number {
+    if (!text) return 0;
+    this.encoding ??= getEncoding(this.encodingName);
+    // 文本中的 <|endoftext|> 等特殊标记按普通文本计数
+    return this.encoding.encode(text, [], []).length;
+  }
+}
+
+/**
+ * 分词器注册表：按模型名称选择分词器，未知的模型使用按字符类型估算的分词器
+ */
+export class TokenizerRegistry {
+  private tokenizers = new Map<TokenizerName, Tokenizer>();
+
+  constructor() {
+    this.register(new BpeTokenizer('o200k', 'o200k_base'));
+    this.register(new BpeTokenizer('cl100k', 'cl100k_base'));
+    this.register(new HeuristicTokenizer());
+  }
+
+  /**
+   * 注册分词器（同名的分词器会被替换）
+   */
+  public register(tokenizer: Tokenizer): void {
+    this.tokenizers.set(tokenizer.name, tokenizer);
+  }
+
+  /**
+   * 获取模型使用的分词器
+   * @param modelName 模型名称，可带 openai/ 等前缀
+   * @param preferred 指定的分词器，auto 表示按模型名称选择
+   */
+  public resolve(modelName: string, preferred: TokenizerName | 'auto' = 'auto'): Tokenizer {
+    if (preferred !== 'auto') {
+      const tokenizer = TOKENIZER_NAMES.includes(preferred) ? this.tokenizers.get(preferred) : undefined;
+      if (tokenizer) return tokenizer;
+      logger.warn(`未知的分词器，已按模型名称选择：${preferred}`);
+    }
+
+    const model = modelName.toLowerCase().split('/').pop() ?? '';
+    const name = MODEL_TOKENIZERS.find(({ pattern }) => pattern.test(model))?.tokenizer ?? 'heuristic';
+    return this.tokenizers.get(name)!;
+  }
+}
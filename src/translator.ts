@@ -1,21 +1,137 @@
 import fs from 'fs';
 import path from 'path';
-import OpenAI from 'openai';
 import pLimit from 'p-limit';
 import { exec } from 'child_process';
 import { SingleBar } from 'cli-progress';
-import { Config, TranslationOptions, TranslationResult, TokenUsage, LANGUAGE_NAMES, LanguageCode } from './types';
-import { ensureDir, generateTargetPath, logger, pathExists, generateUniqueFileName } from './utils';
-import { APIError, handleAPIError, isRetryableError, LANGUAGE_ERRORS, FILE_ERRORS } from './errors';
+import {
+  Config,
+  TranslationOptions,
+  TranslationResult,
+  TokenUsage,
+  LANGUAGE_NAMES,
+  LanguageCode,
+  FormatHandler,
+  Segment,
+  ParsedDocument,
+  TranslationUnit,
+  XliffFile,
+  MemoryMatch,
+  MemoryStats,
+  GlossaryTerm,
+  GlossaryViolation,
+  GlossaryExtractOptions,
+  MaskIssue,
+  ValidationResult,
+  ChunkTranslation,
+  TextChunk,
+  BackTranslationResult,
+  BackTranslationSegment,
+  ReviewScores,
+  ReviewSummary,
+  SegmentReview,
+  ChatMessage,
+  CompletionRequest,
+  CompletionResult,
+  ModelChain,
+  CompletionUsage,
+  ActualUsage,
+  Tokenizer,
+} from './types';
+import { ensureDir, localizePath, logger, pathExists, generateUniqueFileName } from './utils';
+import { APIError, handleAPIError, isRetryableError, LANGUAGE_ERRORS, FILE_ERRORS, FORMAT_ERRORS, RUN_ERRORS, VALIDATION_ERRORS } from './errors';
 import { ProgressManager } from './progress';
 import { MetadataManager } from './metadata';
+import { Segmenter } from './segmenter';
+import { createFormatHandlers, getFormatHandler } from './formats';
+import { ModelRouter } from './routing';
+import { TokenizerRegistry } from './tokenizer';
+import { RateLimiter, parseRetryAfter } from './ratelimit';
+import { buildXliff, parseXliff } from './xliff';
+import { TranslationMemory } from './memory';
+import { TranslationManifest, hashContent } from './manifest';
+import { RunJournal } from './journal';
+import { Glossary, extractTermCandidates } from './glossary';
+import { TextMasker } from './masking';
+import { PLACEHOLDER_PROMPT, renumberPlaceholders, replacePlaceholders } from './placeholders';
+import { OutputValidator } from './validation';
+import { chrfScore } from './qa';
+
+/**
+ * 每批翻译的最大条目数
+ */
+const MAX_BATCH_ITEMS = 50;
+
+/**
+ * 输出因长度上限被截断时，最多让模型续写的次数
+ */
+const MAX_CONTINUATIONS = 3;
+
+/**
+ * 不足该 token 数的文本不再拆分重新翻译
+ */
+const MIN_RESPLIT_TOKENS = 64;
+
+/**
+ * 让模型从截断处续写的提示
+ */
+const CONTINUE_PROMPT = '译文在此处被截断了，请从截断处继续输出剩余的译文，不要重复已输出的内容，也不要添加任何说明。';
+
+/**
+ * 审校评分不高于该值的分段需要人工关注
+ */
+const LOW_REVIEW_SCORE = 3;
+
+/**
+ * 导出的 XLIFF 文件名
+ */
+const XLIFF_FILE_NAME = 'translation.xlf';
 
 export class Translator {
-  private openai: OpenAI;
+  private router: ModelRouter;
+  private tokenizer: Tokenizer;
   private limit: ReturnType<typeof pLimit>;
   private config: Config;
   private progressManager: ProgressManager;
   private metadataManager: MetadataManager;
+  private formatHandlers: FormatHandler[];
+  private memory: TranslationMemory | null;
+  private glossary: Glossary | null;
+  private validator: OutputValidator;
+
+  /**
+   * 本地保护规则（按是否处理专有名词缓存）
+   */
+  private maskers = new Map<string, TextMasker>();
+
+  /**
+   * 导出模式下收集的翻译单元
+   */
+  private xliffFiles: XliffFile[] = [];
+
+  /**
+   * 当前任务的翻译清单（未启用增量翻译时为 null）
+   */
+  private manifest: TranslationManifest | null = null;
+
+  /**
+   * 当前任务的运行记录
+   */
+  private journal: RunJournal | null = null;
+
+  /**
+   * 是否收到了停止信号（不再开始新的文件和分段）
+   */
+  private stopRequested = false;
+
+  /**
+   * 用于再次收到停止信号时中止进行中的请求
+   */
+  private abortController = new AbortController();
+
+  /**
+   * 本次运行创建、尚未重命名为译文的临时文件
+   */
+  private tempFiles = new Set<string>();
 
   /**
    * 语言检测缓存
@@ -40,13 +156,16 @@ export class Translator {
 
   constructor(config: Config) {
     this.config = config;
-    this.openai = new OpenAI({
-      apiKey: config.apiKey,
-      baseURL: config.apiEndpoint,
-    });
+    this.router = new ModelRouter(config);
+    // 分段结果取决于分词器，按首选模型选择，同一次运行和 XLIFF 导入导出中的分段保持一致
+    this.tokenizer = new TokenizerRegistry().resolve(config.modelName, config.tokenizer);
     this.limit = pLimit(config.maxConcurrentTranslations);
     this.progressManager = new ProgressManager(config);
     this.metadataManager = new MetadataManager(config);
+    this.formatHandlers = createFormatHandlers(config);
+    this.memory = config.translationMemory.enabled ? new TranslationMemory(config.translationMemory.path) : null;
+    this.glossary = config.glossary.files.length > 0 ? new Glossary(config.glossary.files) : null;
+    this.validator = new OutputValidator(config.validation.validators, config.validation.lengthRatioTolerance);
   }
 
   /**
@@ -66,7 +185,7 @@ export class Translator {
       return '';
     }
 
-    const { translations, patterns } = this.config.properNouns;
+    const { translations } = this.config.properNouns;
     const items: string[] = [];
 
     if (translations && Object.keys(translations).length > 0) {
@@ -76,11 +195,6 @@ export class Translator {
       }
     }
 
-    if (patterns && patterns.length > 0) {
-      items.push('\n以下模式的文本需要保持不变：');
-      items.push(patterns.join('\n'));
-    }
-
     if (this.config.properNouns.caseSensitive) {
       items.push('\n请注意区分大小写。');
     }
@@ -88,6 +202,17 @@ export class Translator {
     return items.length > 0 ? items.join('\n') : '';
   }
 
+  /**
+   * 生成术语表提示词（只包含原文中出现的术语）
+   */
+  private formatGlossary(terms: GlossaryTerm[]): string {
+    if (terms.length === 0) return '';
+    return [
+      '以下是术语表，原文中出现这些术语时必须使用对应的译法：',
+      ...terms.map(term => `${term.source} => ${term.target}`),
+    ].join('\n');
+  }
+
   /**
    * 处理双语对照翻译
    */
@@ -173,8 +298,9 @@ export class Translator {
 
   /**
    * 自动检测语言
+   * @param chain 发出请求的模型链（翻译文件时为该文件的模型链，检测请求计入文件的实际用量）
    */
-  private async detectLanguage(text: string): Promise<LanguageCode> {
+  private async detectLanguage(text: string, chain: ModelChain = this.router.createChain()): Promise<LanguageCode> {
     try {
       // 使用文本哈希作为缓存键
       const hash = this.hashText(text);
@@ -186,21 +312,18 @@ export class Translator {
       // 只使用前1000个字符进行检测
       const sample = text.slice(0, 1000);
 
-      const response = await this.withRetry(() =>
-        this.openai.chat.completions.create({
-          model: this.config.modelName,
-          messages: [
-            {
-              role: 'system',
-              content: '你是一个语言检测专家。请分析给定文本的语言，只返回语言代码（如：en, zh, ja等）。'
-            },
-            { role: 'user', content: sample }
-          ],
-          temperature: 0,
-        })
-      );
+      const response = await this.requestCompletion(chain, {
+        messages: [
+          {
+            role: 'system',
+            content: '你是一个语言检测专家。请分析给定文本的语言，只返回语言代码（如：en, zh, ja等）。'
+          },
+          { role: 'user', content: sample }
+        ],
+        temperature: 0,
+      });
 
-      const detectedLang = response.choices[0].message.content?.trim().toLowerCase() as LanguageCode;
+      const detectedLang = response.content.trim().toLowerCase() as LanguageCode;
 
       if (!detectedLang || !LANGUAGE_NAMES[detectedLang]) {
         throw new APIError(
@@ -231,8 +354,11 @@ export class Translator {
   private generateReport(results: TranslationResult[], totalDuration: number): string {
     const now = new Date().toISOString();
     const totalFiles = results.length;
+    const skippedFiles = results.filter(result => result.skipped).length;
+    const incompleteFiles = results.filter(result => result.incompleteUnits).length;
     const totalTokens = results.reduce((sum, r) => sum + r.tokenUsage.inputTokens, 0);
     const totalCost = results.reduce((sum, r) => sum + r.tokenUsage.estimatedCost, 0);
+    const actual = this.sumActualUsage(results);
     const averageSpeed = totalTokens / (totalDuration / 1000);
 
     const report = [
@@ -241,30 +367,238 @@ export class Translator {
       `- 完成时间：${now}`,
       `- 总耗时：${this.formatDuration(totalDuration)}`,
       `- 总文件数：${totalFiles}`,
+      ...(skippedFiles > 0 ? [`- 未变更跳过：${skippedFiles}`] : []),
+      ...(incompleteFiles > 0 ? [`- 译文不完整：${incompleteFiles}`] : []),
       `- 总Token数：${totalTokens.toLocaleString()}`,
       `- 平均速度：${Math.round(averageSpeed)} tokens/s`,
-      `- 总费用：$${totalCost.toFixed(6)}`,
+      ...(actual
+        ? [
+          `- 总费用：预估 $${totalCost.toFixed(6)}，实际（约）$${actual.cost.toFixed(6)}`,
+          `- 实际Token：输入 ${actual.inputTokens.toLocaleString()}，输出 ${actual.outputTokens.toLocaleString()}`,
+          `- 请求数：${actual.requests}${actual.estimatedRequests > 0 ? `（${actual.estimatedRequests} 次未返回用量或请求失败，按估算计入）` : ''}`,
+        ]
+        : [`- 总费用：$${totalCost.toFixed(6)}`]),
+      ...this.formatMemoryStats(this.sumMemoryStats(results)),
+      ...this.formatReviewOverview(results),
       '\n## 文件详情',
     ];
 
     results.forEach(result => {
+      if (result.skipped) {
+        report.push(
+          `\n### ${result.sourcePath}`,
+          `- 目标文件：${result.targetPath}`,
+          '- 状态：源文件未变更，已跳过'
+        );
+        return;
+      }
+
       const duration = result.duration || 0;
       const speed = result.tokenUsage.inputTokens / (duration / 1000);
 
       report.push(
         `\n### ${result.sourcePath}`,
         `- 目标文件：${result.targetPath}`,
+        ...(result.incompleteUnits
+          ? [`- 状态：译文不完整（模型输出被截断或过滤：${result.incompleteUnits.join('、')}）`]
+          : []),
+        ...(result.models ? [`- 模型：${result.models.join(', ')}`] : []),
         `- 耗时：${this.formatDuration(duration)}`,
+        `- 分段数：${result.chunkCount}`,
+        ...(result.reusedCount ? [`- 沿用上次译文的分段：${result.reusedCount}`] : []),
         `- 速度：${Math.round(speed)} tokens/s`,
-        `- 输入Token：${result.tokenUsage.inputTokens.toLocaleString()}`,
-        `- 输出Token：${result.tokenUsage.estimatedOutputTokens.toLocaleString()}`,
-        `- 费用：$${result.tokenUsage.estimatedCost.toFixed(6)}`
+        ...this.formatTokenUsage(result.tokenUsage),
+        ...this.formatMemoryStats(result.memory),
+        ...this.formatGlossaryViolations(result),
+        ...this.formatMaskIssues(result),
+        ...this.formatValidation(result),
+        ...this.formatBackTranslation(result),
+        ...this.formatReview(result)
       );
     });
 
     return report.join('\n');
   }
 
+  /**
+   * 汇总所有文件的实际用量和费用（没有文件记录实际用量时为空）
+   */
+  public sumActualUsage(results: TranslationResult[]): (ActualUsage & { cost: number }) | undefined {
+    const usages = results.filter(result => result.tokenUsage.actual);
+    if (usages.length === 0) return undefined;
+
+    return usages.reduce((sum, { tokenUsage }) => ({
+      requests: sum.requests + tokenUsage.actual!.requests,
+      inputTokens: sum.inputTokens + tokenUsage.actual!.inputTokens,
+      outputTokens: sum.outputTokens + tokenUsage.actual!.outputTokens,
+      estimatedRequests: sum.estimatedRequests + tokenUsage.actual!.estimatedRequests,
+      cost: sum.cost + (tokenUsage.actualCost ?? 0),
+    }), { requests: 0, inputTokens: 0, outputTokens: 0, estimatedRequests: 0, cost: 0 });
+  }
+
+  /**
+   * 生成 token 用量和费用的报告行：有实际用量时与预估值并列
+   */
+  private formatTokenUsage(usage: TokenUsage): string[] {
+    const { actual } = usage;
+    if (!actual) {
+      return [
+        `- 输入Token：${usage.inputTokens.toLocaleString()}`,
+        `- 输出Token：${usage.estimatedOutputTokens.toLocaleString()}`,
+        `- 费用：$${usage.estimatedCost.toFixed(6)}`,
+      ];
+    }
+
+    return [
+      `- 输入Token：预估 ${usage.inputTokens.toLocaleString()}，实际 ${actual.inputTokens.toLocaleString()}`,
+      `- 输出Token：预估 ${usage.estimatedOutputTokens.toLocaleString()}，实际 ${actual.outputTokens.toLocaleString()}`,
+      `- 费用：预估 $${usage.estimatedCost.toFixed(6)}，实际（约）$${(usage.actualCost ?? 0).toFixed(6)}`,
+      `- 请求数：${actual.requests}${actual.estimatedRequests > 0 ? `（${actual.estimatedRequests} 次未返回用量或请求失败，按估算计入）` : ''}`,
+    ];
+  }
+
+  /**
+   * 汇总所有文件的翻译记忆库使用情况
+   */
+  public sumMemoryStats(results: TranslationResult[]): MemoryStats | undefined {
+    const stats = results.map(result => result.memory).filter((memory): memory is MemoryStats => !!memory);
+    if (stats.length === 0) return undefined;
+
+    return stats.reduce((sum, memory) => ({
+      lookups: sum.lookups + memory.lookups,
+      exactHits: sum.exactHits + memory.exactHits,
+      fuzzyHits: sum.fuzzyHits + memory.fuzzyHits,
+      savedCost: sum.savedCost + memory.savedCost,
+    }));
+  }
+
+  /**
+   * 生成翻译记忆库使用情况的报告行
+   */
+  private formatMemoryStats(memory?: MemoryStats): string[] {
+    if (!memory) return [];
+
+    const rate = memory.lookups > 0 ? (memory.exactHits / memory.lookups) * 100 : 0;
+    return [
+      `- 记忆库命中率：${rate.toFixed(1)}%（精确命中 ${memory.exactHits}/${memory.lookups}，模糊参考 ${memory.fuzzyHits}）`,
+      `- 记忆库节省费用：$${memory.savedCost.toFixed(6)}`,
+    ];
+  }
+
+  /**
+   * 生成术语检查结果的报告行
+   */
+  private formatGlossaryViolations(result: TranslationResult): string[] {
+    if (!result.glossaryViolations) return [];
+
+    const lines = [`- 术语违规：${result.glossaryViolations.length}（已自动修正 ${result.glossaryRepaired ?? 0}）`];
+    for (const violation of result.glossaryViolations) {
+      lines.push(`  - ${violation.source} => ${violation.target}（${violation.unitId}）`);
+    }
+    return lines;
+  }
+
+  /**
+   * 生成受保护内容检查结果的报告行
+   */
+  private formatMaskIssues(result: TranslationResult): string[] {
+    if (!result.maskIssues) return [];
+
+    const lines = [`- 受保护内容异常：${result.maskIssues.length}`];
+    for (const issue of result.maskIssues) {
+      lines.push(`  - ${issue.problem === 'dropped' ? '丢失' : '重复'}：${issue.original}`);
+    }
+    return lines;
+  }
+
+  /**
+   * 生成质量检查结果的报告行
+   */
+  private formatValidation(result: TranslationResult): string[] {
+    if (!result.validation) return [];
+
+    const failed = result.validation.filter(check => !check.passed);
+    const retries = result.validationRetries ? `，重新翻译 ${result.validationRetries} 轮` : '';
+    const lines = [`- 质量检查：${failed.length > 0 ? `${failed.length} 项未通过` : '全部通过'}${retries}`];
+    for (const check of failed) {
+      for (const issue of check.issues) {
+        lines.push(`  - ${check.validator}：${issue.message}（${issue.unitId}）`);
+      }
+    }
+    return lines;
+  }
+
+  /**
+   * 生成回译评估结果的报告行，低分分段以表格并列原文和回译
+   */
+  private formatBackTranslation(result: TranslationResult): string[] {
+    const qa = result.backTranslation;
+    if (!qa) return [];
+
+    const lines = [`- 回译平均 chrF：${qa.averageScore.toFixed(1)}（${qa.segmentCount} 个分段，低分 ${qa.lowScoring.length} 个）`];
+    if (qa.lowScoring.length === 0) return lines;
+
+    const judged = qa.lowScoring.some(segment => segment.judgeScore !== undefined);
+    const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+    lines.push(
+      '',
+      `| 单元 | chrF |${judged ? ' 模型评分 |' : ''} 原文 | 回译 |`,
+      `| --- | --- |${judged ? ' --- |' : ''} --- | --- |`
+    );
+    for (const segment of qa.lowScoring) {
+      const judgeScore = judged ? ` ${segment.judgeScore ?? '-'} |` : '';
+      lines.push(`| ${segment.unitId} | ${segment.score.toFixed(1)} |${judgeScore} ${cell(segment.source)} | ${cell(segment.backTranslation)} |`);
+    }
+    return lines;
+  }
+
+  /**
+   * 生成审校概览：按平均分从低到高列出各文件，便于确定人工审校的优先级
+   */
+  private formatReviewOverview(results: TranslationResult[]): string[] {
+    const reviewed = results.filter(result => result.review && result.review.segmentCount > 0);
+    if (reviewed.length === 0) return [];
+
+    const lowest = (review: ReviewSummary) =>
+      Math.min(review.average.accuracy, review.average.fluency, review.average.terminology);
+    const lines = ['\n## 审校概览'];
+    for (const result of reviewed.sort((a, b) => lowest(a.review!) - lowest(b.review!))) {
+      const review = result.review!;
+      const attention = review.segments.filter(segment => !segment.applied).length;
+      lines.push(`- ${result.sourcePath}：${this.formatReviewScores(review.average)}${attention > 0 ? `，${attention} 个分段需要人工审校` : ''}`);
+    }
+    return lines;
+  }
+
+  /**
+   * 生成单个文件审校结果的报告行
+   */
+  private formatReview(result: TranslationResult): string[] {
+    const review = result.review;
+    if (!review) return [];
+
+    const lines = [
+      `- 审校（${review.model}）：${this.formatReviewScores(review.average)}（${review.segmentCount} 个分段，自动采纳建议 ${review.appliedCount} 处）`,
+    ];
+    const inline = (text: string) => text.replace(/\s*\n\s*/g, ' ');
+    for (const segment of review.segments) {
+      const details = [
+        segment.issues && inline(segment.issues),
+        segment.suggestion && `${segment.applied ? '已采纳' : '建议'}：${inline(segment.suggestion)}`,
+        segment.rejected && `未自动采纳（${segment.rejected}）`,
+      ].filter(Boolean);
+      lines.push(`  - ${segment.unitId}：${this.formatReviewScores(segment)}${details.length > 0 ? `；${details.join('；')}` : ''}`);
+    }
+    return lines;
+  }
+
+  /**
+   * 格式化审校评分
+   */
+  private formatReviewScores(scores: ReviewScores): string {
+    return `准确性 ${scores.accuracy.toFixed(1)} / 流畅度 ${scores.fluency.toFixed(1)} / 术语 ${scores.terminology.toFixed(1)}`;
+  }
+
   /**
    * 打开输出目录
    */
@@ -285,37 +619,28 @@ export class Translator {
   }
 
   /**
-   * 计算token数量（使用 DeepSeek 的算法）
-   * 参考：https://api-docs.deepseek.com/zh-cn/quick_start/token_usage
+   * 计算token数量：GPT 系列模型使用对应的 BPE 词表，其他模型按字符类型估算
+   * 分段、批次、成本预估和限流使用同一个分词器
    */
   private estimateTokenCount(text: string): number {
-    // 中文字符（包括标点）
-    const chineseChars = text.match(/[\u4e00-\u9fff\u3000-\u303f\uff00-\uff60]/g) || [];
-    // 英文单词和数字
-    const englishAndNumbers = text.match(/[a-zA-Z0-9]+/g) || [];
-    // 其他字符（标点符号等）
-    const otherChars = text.match(/[^a-zA-Z0-9\u4e00-\u9fff\u3000-\u303f\uff00-\uff60\s]/g) || [];
-
-    // 中文字符算 2 个 token
-    const chineseTokens = chineseChars.length * 2;
-    // 英文单词和数字算 1 个 token
-    const englishTokens = englishAndNumbers.length;
-    // 其他字符算 1 个 token
-    const otherTokens = otherChars.length;
-
-    return chineseTokens + englishTokens + otherTokens;
+    return this.tokenizer.count(text);
   }
 
   /**
    * 计算翻译成本
    */
   private calculateCost(tokenCount: number, options: TranslationOptions): number {
+    const estimatedOutputTokens = tokenCount * 1.3; // 假设输出token数约为输入的1.3倍
+    return this.calculateActualCost({ inputTokens: tokenCount, outputTokens: estimatedOutputTokens }, options);
+  }
+
+  /**
+   * 按输入和输出 token 数计算费用（使用文件的单价，路由或切换到其他模型的请求也按该单价计算，因此实际费用为近似值）
+   */
+  private calculateActualCost(usage: CompletionUsage, options: TranslationOptions): number {
     const inputRate = (options.inputPricePerMillionTokens || this.config.defaultInputPricePerMillionTokens || 0.2) / 1000000;
     const outputRate = (options.outputPricePerMillionTokens || this.config.defaultOutputPricePerMillionTokens || 0.2) / 1000000;
-    const inputCost = tokenCount * inputRate;
-    const estimatedOutputTokens = tokenCount * 1.3; // 假设输出token数约为输入的1.3倍
-    const outputCost = estimatedOutputTokens * outputRate;
-    return inputCost + outputCost;
+    return usage.inputTokens * inputRate + usage.outputTokens * outputRate;
   }
 
   /**
@@ -365,35 +690,56 @@ export class Translator {
   }
 
   /**
-   * 重试机制
+   * 重试机制：请求经限流器放行后发送；
+   * 被限流（429）或服务器过载（503）时由限流器暂停该模型的所有请求并降低并发数，其他错误等待后重试，服务端给出等待时间时按其等待
+   * @param tokens 本次请求预计消耗的 token 数
+   * @param onFailure 每次请求失败时调用（用于记录失败请求的用量）
    */
-  private async withRetry<T>(operation: () => Promise<T>): Promise<T> {
-    let lastError: Error | null = null;
-    let delay = this.config.retryDelay || 1000;
+  private async withRetry(
+    operation: () => Promise<CompletionResult>,
+    limiter: RateLimiter,
+    tokens: number,
+    onFailure?: (error: APIError) => void
+  ): Promise<CompletionResult> {
+    let lastError: APIError | null = null;
     const maxRetries = this.config.retryCount || 3;
-    const maxDelay = this.config.maxRetryDelay || 30000;
 
     for (let i = 0; i < maxRetries; i++) {
+      await limiter.acquire(tokens, this.abortController.signal);
       try {
-        return await operation();
+        const result = await operation();
+        limiter.release(result.headers);
+        limiter.onSuccess();
+        return result;
       } catch (error) {
-        lastError = error as Error;
         const apiError = handleAPIError(error);
+        limiter.release(apiError.headers);
+        onFailure?.(apiError);
+
+        // 收到停止信号后不再重试
+        this.checkInterrupted();
 
         // 某些错误不应该重试
         if (!isRetryableError(apiError)) {
           throw apiError;
         }
+        lastError = apiError;
 
         if (i < maxRetries - 1) {
-          // 使用指数退避策略，但设置最大延迟
-          delay = Math.min(delay * Math.pow(2, i), maxDelay);
+          const retryAfter = apiError.headers && parseRetryAfter(apiError.headers);
+          const throttled = apiError.code === 429 || apiError.code === 503;
+          const delay = throttled
+            ? limiter.onThrottled(retryAfter)
+            : Math.min(retryAfter ?? (this.config.retryDelay || 1000), this.config.maxRetryDelay || 30000);
 
           logger.warn(`${apiError.message}`);
           logger.warn(`建议：${apiError.suggestion}`);
           logger.warn(`Retry ${i + 1}/${maxRetries} after ${delay}ms...`);
 
-          await new Promise(resolve => setTimeout(resolve, delay));
+          // 被限流时由限流器在下次放行前等待
+          if (!throttled) {
+            await new Promise(resolve => setTimeout(resolve, delay));
+          }
         }
       }
     }
@@ -401,6 +747,125 @@ export class Translator {
     throw lastError;
   }
 
+  /**
+   * 请求一次补全：当前模型重试用尽后仍返回可重试的错误（429、503 等）时，切换到模型链中的下一个模型
+   */
+  private async requestCompletion(
+    chain: ModelChain,
+    request: Omit<CompletionRequest, 'model' | 'signal'>,
+    stream = false
+  ): Promise<CompletionResult> {
+    for (;;) {
+      const target = chain.targets[chain.active];
+      const provider = this.router.getProvider(target);
+      try {
+        const result = await this.withRetry(
+          () => {
+            const params = { ...request, model: target.model, signal: this.abortController.signal };
+            return stream ? provider.stream(params) : provider.complete(params);
+          },
+          this.router.getRateLimiter(target),
+          this.estimateRequestTokens(request.messages),
+          error => this.recordFailedUsage(chain.usage, request.messages, error)
+        );
+        if (!chain.used.includes(target.model)) {
+          chain.used.push(target.model);
+        }
+        this.recordUsage(chain.usage, request.messages, result);
+        return result;
+      } catch (error) {
+        if (!isRetryableError(error)) throw error;
+        // 并发的请求可能已经切换了模型，此时直接使用切换后的模型
+        if (chain.targets[chain.active] === target) {
+          if (chain.active >= chain.targets.length - 1) throw error;
+          chain.active++;
+          logger.warn(`${target.model} 重试后仍失败（${(error as Error).message}），改用备用模型 ${chain.targets[chain.active].model}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * 记录一次请求的实际用量，提供商未返回用量时按请求和输出的文本估算
+   */
+  private recordUsage(usage: ActualUsage, messages: ChatMessage[], result: CompletionResult): void {
+    usage.requests++;
+    if (result.usage) {
+      usage.inputTokens += result.usage.inputTokens;
+      usage.outputTokens += result.usage.outputTokens;
+    } else {
+      usage.estimatedRequests++;
+      usage.inputTokens += messages.reduce((sum, message) => sum + this.estimateTokenCount(message.content), 0);
+      usage.outputTokens += this.estimateTokenCount(result.content);
+    }
+  }
+
+  /**
+   * 记录一次失败请求的用量：服务端可能已经处理了请求（如服务器错误、流式响应中途出错），按请求的文本估算输入；
+   * 被限流或请求有误（4xx）时服务端没有处理请求，不计入
+   */
+  private recordFailedUsage(usage: ActualUsage, messages: ChatMessage[], error: APIError): void {
+    if (error.code >= 400 && error.code < 500) return;
+    usage.requests++;
+    usage.estimatedRequests++;
+    usage.inputTokens += messages.reduce((sum, message) => sum + this.estimateTokenCount(message.content), 0);
+  }
+
+  /**
+   * 估算一次请求消耗的 token 数（用于按每分钟 token 数限流）：全部消息，加上按最后一条消息估算的输出
+   */
+  private estimateRequestTokens(messages: ChatMessage[]): number {
+    const input = messages.reduce((sum, message) => sum + this.estimateTokenCount(message.content), 0);
+    const output = Math.ceil(this.estimateTokenCount(messages[messages.length - 1]?.content ?? '') * 1.3);
+    return input + output;
+  }
+
+  /**
+   * 当前文件的模型链，不属于某个文件的请求（语言检测、术语提取）使用默认的模型链
+   */
+  private getChain(options: TranslationOptions): ModelChain {
+    return options.modelChain ?? this.router.createChain();
+  }
+
+  /**
+   * 当前使用的模型名称（用于翻译记忆库）
+   */
+  private getModelName(options: TranslationOptions): string {
+    const chain = options.modelChain;
+    return chain ? chain.targets[chain.active].model : this.config.modelName;
+  }
+
+  /**
+   * 收到停止信号后抛出中断错误
+   */
+  private checkInterrupted(): void {
+    if (this.stopRequested) {
+      throw new APIError(RUN_ERRORS.INTERRUPTED.message, -1, RUN_ERRORS.INTERRUPTED.suggestion);
+    }
+  }
+
+  /**
+   * 处理 SIGINT / SIGTERM：第一次停止调度新的文件和分段，等待进行中的请求完成；第二次立即中止请求
+   */
+  private handleStopSignal = (): void => {
+    if (this.stopRequested) {
+      this.abortController.abort();
+      return;
+    }
+    this.stopRequested = true;
+    logger.warn('\n正在停止：等待进行中的请求完成后保存进度（再次按 Ctrl-C 立即中止）');
+  };
+
+  /**
+   * 删除写入译文时遗留的临时文件（只删除本工具创建过的临时文件，不扫描输出目录）
+   */
+  private async removeTempFiles(tempPaths: Iterable<string>): Promise<void> {
+    for (const tempPath of Array.from(tempPaths)) {
+      await fs.promises.unlink(tempPath).catch(() => {});
+      this.tempFiles.delete(tempPath);
+    }
+  }
+
   /**
    * 检查文件大小是否超过限制
    */
@@ -439,7 +904,10 @@ export class Translator {
    * 写入文件内容
    */
   private async writeFileContent(filePath: string, content: string): Promise<void> {
-    const tempPath = `${filePath}.tmp`;
+    const tempPath = path.resolve(`${filePath}.tmp`);
+    // 记录临时文件，中断时和 --resume 时只清理这些文件
+    this.tempFiles.add(tempPath);
+    this.journal?.recordTempFile(tempPath);
     try {
       // 先写入临时文件
       await fs.promises.writeFile(tempPath, content, 'utf-8');
@@ -449,15 +917,881 @@ export class Translator {
       }
       // 重命名临时文件
       await fs.promises.rename(tempPath, filePath);
+      this.tempFiles.delete(tempPath);
     } catch (error) {
       // 清理临时文件
-      if (await pathExists(tempPath)) {
-        await fs.promises.unlink(tempPath).catch(() => {});
-      }
+      await this.removeTempFiles([tempPath]);
       throw error;
     }
   }
 
+  /**
+   * 截取上文末尾用作下一分段的参考（尽量从整行开始）
+   */
+  private getContextTail(text: string): string {
+    const size = this.config.chunkContextSize;
+    if (text.length <= size) return text;
+
+    const tail = text.slice(-size);
+    const lineBreak = tail.indexOf('\n');
+    return lineBreak >= 0 && lineBreak < tail.length - 1 ? tail.slice(lineBreak + 1) : tail;
+  }
+
+  /**
+   * 翻译单个分段
+   * 输出因长度上限被截断时让模型续写，续写后仍被截断或被内容过滤时拆成更小的分段重新翻译
+   */
+  private async translateChunk(
+    text: string,
+    options: TranslationOptions,
+    handler: FormatHandler,
+    context?: { source: string; translation: string },
+    references: MemoryMatch[] = [],
+    maskIssues: MaskIssue[] = []
+  ): Promise<ChunkTranslation> {
+    const masker = this.getMasker(options);
+    const masked = masker.mask(text);
+    const basePrompt = [
+      this.generateSystemPrompt(options),
+      handler.prompt,
+      this.formatPlaceholderPrompt(masked.placeholders.size, handler),
+      this.formatGlossary(this.glossary?.findTerms(text, options.languages) ?? []),
+      this.formatReferences(references),
+    ].filter(Boolean).join('\n');
+    const systemPrompt = context
+      ? `${basePrompt}\n之前的对话是上文的原文和译文，仅供参考以保持术语和风格一致，请只翻译最新的内容。`
+      : basePrompt;
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: systemPrompt },
+    ];
+    if (context) {
+      messages.push(
+        { role: 'user', content: context.source },
+        { role: 'assistant', content: context.translation }
+      );
+    }
+    messages.push({ role: 'user', content: masked.text });
+
+    let { content: translated, finishReason } = await this.streamCompletion(messages, options);
+    for (let i = 0; finishReason === 'length' && i < MAX_CONTINUATIONS; i++) {
+      this.checkInterrupted();
+      const continued = await this.streamCompletion([
+        ...messages,
+        { role: 'assistant', content: translated },
+        { role: 'user', content: CONTINUE_PROMPT },
+      ], options);
+      translated += continued.content;
+      finishReason = continued.finishReason;
+    }
+
+    if (finishReason === 'length' || finishReason === 'content_filter') {
+      const halves = this.splitInHalf(text);
+      if (halves) {
+        logger.warn(`模型输出${finishReason === 'length' ? '被截断' : '被内容过滤'}，拆成 ${halves.chunks.length} 个分段重新翻译`);
+        const results: ChunkTranslation[] = [];
+        for (const chunk of halves.chunks) {
+          this.checkInterrupted();
+          results.push(chunk.text
+            ? await this.translateChunk(chunk.text, options, handler, undefined, references, maskIssues)
+            : { text: '', complete: true });
+        }
+        return {
+          text: halves.segmenter.join(halves.chunks, results.map(result => result.text)),
+          complete: results.every(result => result.complete),
+        };
+      }
+    }
+
+    return {
+      text: masker.unmask(translated.trim(), masked.placeholders, maskIssues),
+      complete: finishReason !== 'length' && finishReason !== 'content_filter',
+    };
+  }
+
+  /**
+   * 流式请求一次补全，返回全部内容和结束原因
+   * 流式请求和读取都在重试范围内，避免中途断流导致内容缺失
+   */
+  private async streamCompletion(messages: ChatMessage[], options: TranslationOptions): Promise<CompletionResult> {
+    return this.requestCompletion(this.getChain(options), {
+      messages,
+      temperature: this.config.temperature || 0.3,
+    }, true);
+  }
+
+  /**
+   * 按结构边界将文本拆成约一半大小的分段，文本过短或无法再拆分时返回 null
+   */
+  private splitInHalf(text: string): { segmenter: Segmenter; chunks: TextChunk[] } | null {
+    const tokens = this.estimateTokenCount(text);
+    if (tokens < MIN_RESPLIT_TOKENS) return null;
+
+    const segmenter = new Segmenter(Math.ceil(tokens / 2), value => this.estimateTokenCount(value));
+    const chunks = segmenter.split(text);
+    return chunks.filter(chunk => chunk.text).length > 1 ? { segmenter, chunks } : null;
+  }
+
+  /**
+   * 获取本地保护规则：专有名词模式仅在处理专有名词时生效，内置规则由配置决定
+   */
+  private getMasker(options: TranslationOptions): TextMasker {
+    const key = options.skipProperNouns ? 'properNouns' : 'builtin';
+    let masker = this.maskers.get(key);
+    if (!masker) {
+      const patterns = options.skipProperNouns ? this.config.properNouns?.patterns ?? [] : [];
+      masker = new TextMasker(patterns, this.config.protectBuiltinPatterns);
+      this.maskers.set(key, masker);
+    }
+    return masker;
+  }
+
+  /**
+   * 有本地保护的占位符且格式处理器的提示词中没有占位符说明时，补充说明
+   */
+  private formatPlaceholderPrompt(count: number, handler: FormatHandler): string {
+    return count > 0 && !handler.prompt?.includes(PLACEHOLDER_PROMPT) ? PLACEHOLDER_PROMPT : '';
+  }
+
+  /**
+   * 创建按 token 预算分段的分段器
+   */
+  private createSegmenter(): Segmenter {
+    return new Segmenter(this.config.maxChunkTokens, text => this.estimateTokenCount(text));
+  }
+
+  /**
+   * 翻译文件中的所有段落：长文本按 token 预算分段并携带上文，短文本按批次翻译
+   * 与上次原文相同的分段沿用上次的译文，翻译记忆库精确命中的分段不调用 API；
+   * 每完成一个分段或批次回调 onTranslated（不含译文不完整的单元），返回每个分段（或短文本）的翻译单元
+   */
+  private async translateSegments(
+    segments: Segment[],
+    options: TranslationOptions,
+    handler: FormatHandler,
+    progressBar: SingleBar | null,
+    previousUnits: TranslationUnit[] = [],
+    onTranslated?: (units: TranslationUnit[]) => void
+  ): Promise<{
+    units: TranslationUnit[];
+    chunkCount: number;
+    memory: MemoryStats;
+    reused: number;
+    maskIssues: MaskIssue[];
+    incomplete: Set<string>;
+  }> {
+    const segmenter = this.createSegmenter();
+    const maskIssues: MaskIssue[] = [];
+    const incomplete = new Set<string>();
+    const memory: MemoryStats = { lookups: 0, exactHits: 0, fuzzyHits: 0, savedCost: 0 };
+    const inlineUnits = new Map<string, TranslationUnit>();
+    const blockUnits = new Map<string, TranslationUnit[]>();
+    // 上次的译文按重新编号占位符后的原文查找：文档前面增删了占位符时，后面分段的占位符编号整体偏移，但内容未变
+    const previousTranslations = new Map(previousUnits.map(unit => {
+      const { text, mapping } = renumberPlaceholders(unit.source);
+      return [text, replacePlaceholders(unit.target, mapping)];
+    }));
+    let reused = 0;
+
+    const recall = (source: string): string | undefined => {
+      const { text, mapping } = renumberPlaceholders(source);
+      const kept = previousTranslations.get(text);
+      if (kept !== undefined) {
+        reused++;
+        return replacePlaceholders(kept, new Map(Array.from(mapping, ([token, renumbered]) => [renumbered, token])));
+      }
+      return this.recallTranslation(source, options, memory);
+    };
+
+    // 短文本先查上次译文和记忆库，未命中的再分批
+    const pending: Segment[] = [];
+    for (const segment of segments.filter(segment => segment.kind === 'inline')) {
+      const remembered = recall(segment.text);
+      if (remembered === undefined) {
+        pending.push(segment);
+      } else {
+        inlineUnits.set(segment.id, this.createUnit(segment, remembered));
+      }
+    }
+
+    const planned = segments
+      .filter(segment => segment.kind === 'block')
+      .map(segment => ({ segment, chunks: segmenter.split(segment.text) }));
+    const batches = this.createBatches(pending);
+    const chunkCount = planned.reduce((sum, { chunks }) => sum + chunks.length, 0) + batches.length;
+    let completed = 0;
+    let previous: { source: string; translation: string } | undefined;
+
+    for (const { segment, chunks } of planned) {
+      const units: TranslationUnit[] = [];
+      blockUnits.set(segment.id, units);
+
+      for (const [index, chunk] of chunks.entries()) {
+        if (chunk.text) {
+          const unitId = `${segment.id}#${index}`;
+          let translation = recall(chunk.text);
+          if (translation === undefined) {
+            this.checkInterrupted();
+            const references = this.findReferences([chunk.text], options, memory);
+            const result = await this.translateChunk(chunk.text, options, handler, previous, references, maskIssues);
+            translation = result.text;
+            if (result.complete) {
+              this.memory?.add(chunk.text, translation, options.languages, this.getModelName(options));
+            } else {
+              incomplete.add(unitId);
+            }
+          }
+
+          const unit = { id: unitId, source: chunk.text, target: translation };
+          units.push(unit);
+          if (!incomplete.has(unitId)) {
+            onTranslated?.([unit]);
+          }
+          previous = this.config.chunkContextSize > 0
+            ? { source: this.getContextTail(chunk.text), translation: this.getContextTail(translation) }
+            : undefined;
+        }
+
+        completed++;
+        this.progressManager.updateChunkProgress(progressBar, completed, chunkCount);
+      }
+    }
+
+    for (const batch of batches) {
+      this.checkInterrupted();
+      const references = this.findReferences(batch.map(segment => segment.text), options, memory);
+      const results = await this.translateBatch(batch, options, handler, references, maskIssues);
+      const batchUnits = batch.map((segment, index) => {
+        if (results[index].complete) {
+          this.memory?.add(segment.text, results[index].text, options.languages, this.getModelName(options));
+        } else {
+          incomplete.add(segment.id);
+        }
+        return this.createUnit(segment, results[index].text);
+      });
+      batchUnits.forEach(unit => inlineUnits.set(unit.id, unit));
+      onTranslated?.(batchUnits.filter(unit => !incomplete.has(unit.id)));
+
+      completed++;
+      this.progressManager.updateChunkProgress(progressBar, completed, chunkCount);
+    }
+
+    // 按段落在文档中的顺序输出
+    const units = segments.flatMap(segment =>
+      segment.kind === 'block' ? blockUnits.get(segment.id) ?? [] : inlineUnits.get(segment.id) ?? []
+    );
+    return { units, chunkCount, memory, reused, maskIssues, incomplete };
+  }
+
+  /**
+   * 创建短文本段落的翻译单元
+   */
+  private createUnit(segment: Segment, target: string): TranslationUnit {
+    return {
+      id: segment.id,
+      source: segment.text,
+      target,
+      ...(segment.note && { note: segment.note }),
+    };
+  }
+
+  /**
+   * 从翻译记忆库中查找完全相同原文的译文，并记录命中情况
+   */
+  private recallTranslation(source: string, options: TranslationOptions, stats: MemoryStats): string | undefined {
+    if (!this.memory) return undefined;
+
+    stats.lookups++;
+    const remembered = this.memory.lookup(source, options.languages, this.getModelName(options));
+    if (remembered !== undefined) {
+      stats.exactHits++;
+      stats.savedCost += this.calculateCost(this.estimateTokenCount(source), options);
+    }
+    return remembered;
+  }
+
+  /**
+   * 从翻译记忆库中查找相似原文的译文作为参考
+   */
+  private findReferences(sources: string[], options: TranslationOptions, stats: MemoryStats): MemoryMatch[] {
+    if (!this.memory) return [];
+
+    const { fuzzyThreshold, maxFuzzyMatches } = this.config.translationMemory;
+    const references = new Map<string, MemoryMatch>();
+    for (const source of sources) {
+      const matches = this.memory.findSimilar(source, options.languages, fuzzyThreshold, maxFuzzyMatches);
+      if (matches.length > 0) stats.fuzzyHits++;
+      matches.forEach(match => references.set(match.source, match));
+    }
+    return Array.from(references.values());
+  }
+
+  /**
+   * 生成参考译文提示
+   */
+  private formatReferences(references: MemoryMatch[]): string {
+    if (references.length === 0) return '';
+
+    return [
+      '以下是翻译记忆库中相似原文的已有译文，仅供参考以保持术语和表达一致：',
+      ...references.map(reference => `原文：${reference.source}\n译文：${reference.target}`),
+    ].join('\n');
+  }
+
+  /**
+   * 将翻译单元组装为各段落的译文
+   * 长文本重新分段后按序号对应，缺少的分段保留原文；原文与单元不一致时报错
+   */
+  private assembleTranslations(segments: Segment[], units: TranslationUnit[]): Map<string, string> {
+    const segmenter = this.createSegmenter();
+    const unitMap = new Map(units.map(unit => [unit.id, unit]));
+    const translations = new Map<string, string>();
+
+    const resolve = (id: string, source: string): string | undefined => {
+      const unit = unitMap.get(id);
+      if (unit && unit.source !== source) {
+        throw new APIError(
+          FORMAT_ERRORS.XLIFF_SOURCE_CHANGED.message,
+          -1,
+          `${FORMAT_ERRORS.XLIFF_SOURCE_CHANGED.suggestion}（单元 ${id}）`
+        );
+      }
+      return unit?.target;
+    };
+
+    for (const segment of segments) {
+      if (segment.kind === 'inline') {
+        const translation = resolve(segment.id, segment.text);
+        if (translation !== undefined) {
+          translations.set(segment.id, translation);
+        }
+        continue;
+      }
+
+      const chunks = segmenter.split(segment.text);
+      const results = chunks.map((chunk, index) =>
+        chunk.text ? resolve(`${segment.id}#${index}`, chunk.text) ?? chunk.text : ''
+      );
+      translations.set(segment.id, segmenter.join(chunks, results));
+    }
+
+    return translations;
+  }
+
+  /**
+   * 将短文本段落按 token 预算和条目数分批
+   */
+  private createBatches(segments: Segment[]): Segment[][] {
+    const batches: Segment[][] = [];
+    let current: Segment[] = [];
+    let currentTokens = 0;
+
+    for (const segment of segments) {
+      const tokens = this.estimateTokenCount(segment.text);
+      if (current.length > 0 &&
+          (currentTokens + tokens > this.config.maxChunkTokens || current.length >= MAX_BATCH_ITEMS)) {
+        batches.push(current);
+        current = [];
+        currentTokens = 0;
+      }
+      current.push(segment);
+      currentTokens += tokens;
+    }
+
+    if (current.length > 0) {
+      batches.push(current);
+    }
+
+    return batches;
+  }
+
+  /**
+   * 批量翻译短文本：以 JSON 对象发送，要求模型返回相同编号的 JSON 对象
+   * 返回结果无法解析、条目不一致或输出被截断时，拆成两半分别重试；
+   * 单条文本的输出被截断或被内容过滤时改为单独翻译（可续写和重新分段）
+   */
+  private async translateBatch(
+    segments: Segment[],
+    options: TranslationOptions,
+    handler: FormatHandler,
+    references: MemoryMatch[] = [],
+    maskIssues: MaskIssue[] = []
+  ): Promise<ChunkTranslation[]> {
+    const masker = this.getMasker(options);
+    const masked = segments.map(segment => masker.mask(segment.text));
+    const placeholderCount = masked.reduce((sum, item) => sum + item.placeholders.size, 0);
+    const input = Object.fromEntries(masked.map((item, index) => [String(index + 1), item.text]));
+    const notes = Object.fromEntries(
+      segments
+        .map((segment, index) => [String(index + 1), segment.note])
+        .filter(([, note]) => note)
+    );
+    const systemPrompt = [
+      this.generateSystemPrompt(options),
+      handler.prompt,
+      '输入是一个 JSON 对象，键为编号，值为待翻译的文本。请逐条翻译每个值，键保持不变，只输出结构相同的 JSON 对象，不要输出其他内容。',
+      Object.keys(notes).length > 0 ? '部分条目附有说明，说明仅供参考，不需要翻译或输出。' : '',
+      this.formatPlaceholderPrompt(placeholderCount, handler),
+      this.formatGlossary(this.glossary?.findTerms(segments.map(segment => segment.text).join('\n'), options.languages) ?? []),
+      this.formatReferences(references),
+    ].filter(Boolean).join('\n');
+    const userContent = Object.keys(notes).length > 0
+      ? `${JSON.stringify(input, null, 2)}\n\n说明：\n${JSON.stringify(notes, null, 2)}`
+      : JSON.stringify(input, null, 2);
+
+    const response = await this.requestCompletion(this.getChain(options), {
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userContent },
+      ],
+      temperature: this.config.temperature || 0.3,
+    });
+
+    const finishReason = response.finishReason;
+    const truncated = finishReason === 'length' || finishReason === 'content_filter';
+    const results = truncated ? null : this.parseBatchOutput(response.content, segments.length);
+    if (results) {
+      return results.map((result, index) => ({
+        text: masker.unmask(result, masked[index].placeholders, maskIssues),
+        complete: true,
+      }));
+    }
+
+    if (segments.length > 1) {
+      const middle = Math.ceil(segments.length / 2);
+      return [
+        ...await this.translateBatch(segments.slice(0, middle), options, handler, references, maskIssues),
+        ...await this.translateBatch(segments.slice(middle), options, handler, references, maskIssues),
+      ];
+    }
+
+    if (truncated) {
+      return [await this.translateChunk(segments[0].text, options, handler, undefined, references, maskIssues)];
+    }
+
+    throw new APIError(
+      FORMAT_ERRORS.BATCH_MISMATCH.message,
+      -1,
+      FORMAT_ERRORS.BATCH_MISMATCH.suggestion
+    );
+  }
+
+  /**
+   * 解析批量翻译结果，格式不符时返回 null
+   */
+  private parseBatchOutput(output: string, count: number): string[] | null {
+    const parsed = this.parseJsonObject(output);
+    if (!parsed) return null;
+
+    const results: string[] = [];
+    for (let i = 1; i <= count; i++) {
+      const value = parsed[String(i)];
+      if (typeof value !== 'string') return null;
+      results.push(value);
+    }
+    return results;
+  }
+
+  /**
+   * 从模型输出中提取 JSON 对象（忽略前后的说明文字），无法解析时返回 null
+   */
+  private parseJsonObject(output: string): Record<string, unknown> | null {
+    const start = output.indexOf('{');
+    const end = output.lastIndexOf('}');
+    if (start < 0 || end < start) return null;
+
+    try {
+      const parsed: unknown = JSON.parse(output.slice(start, end + 1));
+      return this.isJsonObject(parsed) ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 判断 JSON 值是否为对象（不含数组和 null）
+   */
+  private isJsonObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+  }
+
+  /**
+   * 检查译文是否使用了术语表规定的译法；repair 模式下让模型修正，返回修正后的翻译单元和仍未修正的术语
+   */
+  private async enforceGlossary(
+    units: TranslationUnit[],
+    options: TranslationOptions,
+    handler: FormatHandler
+  ): Promise<{ units: TranslationUnit[]; violations: GlossaryViolation[]; repaired: number }> {
+    if (!this.glossary) return { units, violations: [], repaired: 0 };
+
+    const checked: TranslationUnit[] = [];
+    const violations: GlossaryViolation[] = [];
+    let repaired = 0;
+
+    for (let unit of units) {
+      let missing = this.glossary.findViolations(unit.source, unit.target, options.languages);
+      if (missing.length > 0 && this.config.glossary.mode === 'repair') {
+        this.checkInterrupted();
+        const target = await this.repairTerms(unit.source, unit.target, missing, options, handler);
+        const remaining = this.glossary.findViolations(unit.source, target, options.languages);
+        if (remaining.length < missing.length) {
+          repaired += missing.length - remaining.length;
+          unit = { ...unit, target };
+          this.memory?.add(unit.source, target, options.languages, this.getModelName(options));
+        }
+        missing = remaining;
+      }
+
+      violations.push(...missing.map(term => ({ ...term, unitId: unit.id })));
+      checked.push(unit);
+    }
+
+    return { units: checked, violations, repaired };
+  }
+
+  /**
+   * 译文质量检查：retry 策略下重新翻译未通过的分段（不使用上文和记忆库），
+   * fail 策略下仍未通过时从记忆库中删除这些译文并抛出错误
+   */
+  private async validateTranslation(
+    units: TranslationUnit[],
+    options: TranslationOptions,
+    handler: FormatHandler,
+    document: ParsedDocument,
+    maskIssues: MaskIssue[],
+    incomplete: Set<string>,
+    onTranslated?: (units: TranslationUnit[]) => void
+  ): Promise<{ units: TranslationUnit[]; results: ValidationResult[]; retries: number }> {
+    const { policy, maxRetries } = this.config.validation;
+    const failedIds = (results: ValidationResult[]) => new Set(results.flatMap(result => result.issues.map(issue => issue.unitId)));
+    let results = this.validator.validate(units, options, handler, document);
+    let retries = 0;
+
+    while (policy === 'retry' && retries < maxRetries) {
+      const failed = failedIds(results);
+      if (failed.size === 0) break;
+
+      retries++;
+      const retranslated: TranslationUnit[] = [];
+      units = [...units];
+      for (const [index, unit] of units.entries()) {
+        if (!failed.has(unit.id)) continue;
+        this.checkInterrupted();
+        const result = await this.translateChunk(unit.source, options, handler, undefined, [], maskIssues);
+        units[index] = { ...unit, target: result.text };
+        if (result.complete) {
+          this.memory?.add(unit.source, result.text, options.languages, this.getModelName(options));
+          incomplete.delete(unit.id);
+          retranslated.push(units[index]);
+        } else {
+          incomplete.add(unit.id);
+        }
+      }
+      onTranslated?.(retranslated);
+      results = this.validator.validate(units, options, handler, document);
+    }
+
+    const failed = failedIds(results);
+    if (policy === 'fail' && failed.size > 0) {
+      for (const unit of units.filter(unit => failed.has(unit.id))) {
+        this.memory?.remove(unit.source, options.languages, this.getModelName(options));
+      }
+      const names = results.filter(result => !result.passed).map(result => `${result.validator} ${result.issues.length}`);
+      throw new APIError(
+        VALIDATION_ERRORS.FAILED.message,
+        -1,
+        `${VALIDATION_ERRORS.FAILED.suggestion}（未通过：${names.join('，')}）`
+      );
+    }
+
+    return { units, results, retries };
+  }
+
+  /**
+   * 审校：由审校模型以 JSON 格式为每个分段的准确性、流畅度和术语评分（1-5）并给出修改建议，
+   * 启用自动采纳时，置信度不低于阈值且保留了占位符和链接的建议直接替换译文
+   * @param onTranslated 每批审校后以替换了译文的单元调用，用于写入运行日志
+   */
+  private async reviewTranslation(
+    units: TranslationUnit[],
+    options: TranslationOptions,
+    onTranslated?: (units: TranslationUnit[]) => void
+  ): Promise<{ units: TranslationUnit[]; summary: ReviewSummary }> {
+    const { autoApply, autoApplyConfidence } = this.config.review;
+    // 指定了审校模型时使用文件首选模型的提供商和端点
+    const fileChain = this.getChain(options);
+    const chain = this.config.review.model
+      ? this.router.createChain({ ...fileChain.targets[0], model: this.config.review.model }, fileChain.usage)
+      : fileChain;
+    const { source, target } = options.languages;
+    const reviewed = [...units];
+    const reviews: SegmentReview[] = [];
+    const indexById = new Map(units.map((unit, index) => [unit.id, index]));
+    const pending: Segment[] = units
+      .filter(unit => unit.source.trim() && unit.target.trim())
+      .map(unit => ({ id: unit.id, text: `${unit.source}\n${unit.target}`, kind: 'inline' }));
+
+    for (const batch of this.createBatches(pending)) {
+      this.checkInterrupted();
+      const batchUnits = batch.map(segment => reviewed[indexById.get(segment.id)!]);
+      const input = Object.fromEntries(
+        batchUnits.map((unit, index) => [String(index + 1), { source: unit.source, translation: unit.target }])
+      );
+      const hasPlaceholders = batchUnits.some(unit => /⟦[A-Z]\d+⟧/.test(unit.target));
+      const systemPrompt = [
+        `你是资深的${LANGUAGE_NAMES[source]}到${LANGUAGE_NAMES[target]}翻译审校。输入是一个 JSON 对象，键为编号，值包含原文（source）和译文（translation）。`,
+        '请从准确性（accuracy：是否忠实完整地表达原文）、流畅度（fluency：是否符合目标语言的表达习惯）和术语（terminology：术语是否准确一致）三方面为每条译文打 1 到 5 的整数分。',
+        '发现问题时在 issues 中简要说明，并在 suggestion 中给出修改后的完整译文，confidence 为你对该建议的把握（0 到 1）；没有问题时 issues 和 suggestion 为空字符串。',
+        '只输出 JSON 对象，键与输入相同，值的格式为 {"accuracy": 5, "fluency": 5, "terminology": 5, "issues": "", "suggestion": "", "confidence": 1}。',
+        hasPlaceholders ? PLACEHOLDER_PROMPT : '',
+        this.formatGlossary(this.glossary?.findTerms(batchUnits.map(unit => unit.source).join('\n'), options.languages) ?? []),
+      ].filter(Boolean).join('\n');
+
+      const response = await this.requestCompletion(chain, {
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: JSON.stringify(input, null, 2) },
+        ],
+        temperature: 0,
+        json: true,
+      });
+
+      const parsed = this.parseJsonObject(response.content) ?? {};
+      const appliedUnits: TranslationUnit[] = [];
+      batchUnits.forEach((unit, index) => {
+        const entry = parsed[String(index + 1)];
+        const item = this.isJsonObject(entry) ? entry : {};
+        const score = (value: unknown) => Number.isFinite(Number(value)) ? Math.max(1, Math.min(5, Number(value))) : undefined;
+        const [accuracy, fluency, terminology] = [item.accuracy, item.fluency, item.terminology].map(score);
+        // 评分不完整的分段视为未审校
+        if (accuracy === undefined || fluency === undefined || terminology === undefined) return;
+
+        const issues = typeof item.issues === 'string' && item.issues.trim() ? item.issues.trim() : undefined;
+        const suggestion = typeof item.suggestion === 'string' && item.suggestion.trim() && item.suggestion.trim() !== unit.target
+          ? item.suggestion.trim()
+          : undefined;
+        const confidence = Number.isFinite(Number(item.confidence)) ? Math.max(0, Math.min(1, Number(item.confidence))) : 0;
+        const rejected = suggestion ? this.validator.checkReplacement(unit.source, suggestion) : undefined;
+        const applied = !!suggestion && !rejected && autoApply && confidence >= autoApplyConfidence;
+        if (applied) {
+          const appliedUnit = { ...unit, target: suggestion };
+          reviewed[indexById.get(unit.id)!] = appliedUnit;
+          appliedUnits.push(appliedUnit);
+          this.memory?.add(unit.source, suggestion, options.languages, this.getModelName(options));
+        }
+
+        reviews.push({
+          unitId: unit.id,
+          accuracy,
+          fluency,
+          terminology,
+          ...(issues && { issues }),
+          ...(suggestion && { suggestion }),
+          confidence,
+          applied,
+          ...(rejected && { rejected }),
+        });
+      });
+      if (appliedUnits.length > 0) onTranslated?.(appliedUnits);
+    }
+
+    const mean = (key: keyof ReviewScores) =>
+      reviews.length > 0 ? reviews.reduce((sum, review) => sum + review[key], 0) / reviews.length : 0;
+    return {
+      units: reviewed,
+      summary: {
+        model: chain.targets[chain.active].model,
+        segmentCount: reviews.length,
+        average: { accuracy: mean('accuracy'), fluency: mean('fluency'), terminology: mean('terminology') },
+        appliedCount: reviews.filter(review => review.applied).length,
+        segments: reviews.filter(review =>
+          review.applied || review.rejected || Math.min(review.accuracy, review.fluency, review.terminology) <= LOW_REVIEW_SCORE
+        ),
+      },
+    };
+  }
+
+  /**
+   * 回译评估：将译文回译为源语言，逐段按 chrF 与原文比较；
+   * 启用模型评判时，再由模型判断低分分段的回译与原文语义是否一致，一致的不再列为低分
+   */
+  private async backTranslate(
+    units: TranslationUnit[],
+    options: TranslationOptions,
+    handler: FormatHandler
+  ): Promise<BackTranslationResult> {
+    const { threshold, judge, judgeThreshold } = this.config.backTranslation;
+    const reversed: TranslationOptions = {
+      ...options,
+      languages: { source: options.languages.target, target: options.languages.source },
+    };
+    const pending = units.filter(unit => unit.source.trim() && unit.target.trim());
+    const segments: Segment[] = pending.map(unit => ({ id: unit.id, text: unit.target, kind: 'inline' }));
+
+    const backTranslations = new Map<string, string>();
+    for (const batch of this.createBatches(segments)) {
+      this.checkInterrupted();
+      const results = await this.translateBatch(batch, reversed, handler);
+      batch.forEach((segment, index) => backTranslations.set(segment.id, results[index].text));
+    }
+
+    // 占位符不参与比较
+    const strip = (text: string) => text.replace(/⟦[A-Z]\d+⟧/g, ' ');
+    const scored: BackTranslationSegment[] = pending.map(unit => {
+      const backTranslation = backTranslations.get(unit.id) ?? '';
+      return {
+        unitId: unit.id,
+        source: unit.source,
+        backTranslation,
+        score: chrfScore(strip(backTranslation), strip(unit.source)),
+      };
+    });
+
+    let lowScoring = scored.filter(segment => segment.score < threshold);
+    if (judge && lowScoring.length > 0) {
+      await this.judgeBackTranslations(lowScoring, options);
+      lowScoring = lowScoring.filter(segment => segment.judgeScore === undefined || segment.judgeScore < judgeThreshold);
+    }
+
+    const averageScore = scored.length > 0
+      ? scored.reduce((sum, segment) => sum + segment.score, 0) / scored.length
+      : 100;
+    return { averageScore, segmentCount: scored.length, lowScoring };
+  }
+
+  /**
+   * 让模型为回译与原文的语义一致程度评分（0-100），结果写入 judgeScore，无法解析的评分保持为空
+   */
+  private async judgeBackTranslations(segments: BackTranslationSegment[], options: TranslationOptions): Promise<void> {
+    const language = LANGUAGE_NAMES[options.languages.source];
+    const systemPrompt = [
+      `你是翻译质量评估员。输入是一个 JSON 对象，键为编号，值包含${language}原文（original）和由译文回译得到的${language}文本（backTranslation）。`,
+      '请判断两者表达的意思是否一致（不考虑措辞和语序差异），给出 0 到 100 的整数评分，100 表示意思完全一致。',
+      '只输出键相同、值为评分的 JSON 对象，不要输出其他内容。',
+    ].join('\n');
+
+    const pairs: Segment[] = segments.map(segment => ({
+      id: segment.unitId,
+      text: `${segment.source}\n${segment.backTranslation}`,
+      kind: 'inline',
+    }));
+    const byId = new Map(segments.map(segment => [segment.unitId, segment]));
+
+    for (const batch of this.createBatches(pairs)) {
+      this.checkInterrupted();
+      const input = Object.fromEntries(batch.map((pair, index) => {
+        const segment = byId.get(pair.id)!;
+        return [String(index + 1), { original: segment.source, backTranslation: segment.backTranslation }];
+      }));
+
+      const response = await this.requestCompletion(this.getChain(options), {
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: JSON.stringify(input, null, 2) },
+        ],
+        temperature: 0,
+      });
+
+      const scores = this.parseJsonObject(response.content) ?? {};
+      batch.forEach((pair, index) => {
+        const score = Number(scores[String(index + 1)]);
+        if (Number.isFinite(score)) {
+          byId.get(pair.id)!.judgeScore = Math.max(0, Math.min(100, score));
+        }
+      });
+    }
+  }
+
+  /**
+   * 让模型修正译文中未使用规定译法的术语，其余内容保持不变
+   */
+  private async repairTerms(
+    source: string,
+    translation: string,
+    terms: GlossaryTerm[],
+    options: TranslationOptions,
+    handler: FormatHandler
+  ): Promise<string> {
+    const systemPrompt = [
+      this.generateSystemPrompt(options),
+      handler.prompt,
+      '用户会提供原文和现有译文。现有译文没有使用术语表规定的译法，请修改译文，使这些术语使用规定的译法，其他内容保持不变。只输出修改后的完整译文，不要输出原文或其他内容。',
+      this.formatGlossary(terms),
+    ].filter(Boolean).join('\n');
+
+    const response = await this.requestCompletion(this.getChain(options), {
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: `原文：\n${source}\n\n译文：\n${translation}` },
+      ],
+      temperature: this.config.temperature || 0.3,
+    });
+
+    return response.content.trim() || translation;
+  }
+
+  /**
+   * 根据译文重建文件并写入目标路径，返回最终的文件路径
+   */
+  private async writeTranslation(
+    content: string,
+    document: ParsedDocument,
+    handler: FormatHandler,
+    translations: Map<string, string>,
+    targetPath: string,
+    options: TranslationOptions,
+    overwrite = false
+  ): Promise<string> {
+    // 确保目标目录存在
+    ensureDir(path.dirname(targetPath));
+
+    // 语言包模式直接写入（补充）目标语言包，增量翻译覆盖上次的译文文件，都不重命名
+    const autoRename = this.config.autoRename && !options.localeBundle && !overwrite;
+
+    // 如果目标文件已存在且启用了自动重命名
+    if (autoRename && await pathExists(targetPath)) {
+      targetPath = generateUniqueFileName(targetPath);
+    }
+
+    const translatedContent = document.rebuild(translations);
+    let finalContent = translatedContent;
+
+    // 结构化格式只输出译文，避免破坏文件结构
+    if (!handler.structured) {
+      // 处理双语对照翻译
+      finalContent = this.formatBilingualContent(content, translatedContent);
+
+      // 如果需要保留原文且未启用双语对照
+      if (this.config.keepOriginalContent && !this.config.bilingualMode.enabled) {
+        finalContent = content + this.config.contentSeparator + finalContent;
+      }
+    }
+
+    // 添加元数据
+    const metadata = this.metadataManager.generate(options);
+    if (metadata && document.insertMetadata) {
+      finalContent = document.insertMetadata(finalContent, {
+        comment: metadata,
+        fields: this.metadataManager.generateFields(options),
+      });
+    } else if (metadata && !handler.structured) {
+      finalContent = metadata + finalContent;
+    }
+
+    await this.writeFileContent(targetPath, finalContent);
+
+    // 如果启用了自动重命名，添加语言后缀
+    if (autoRename) {
+      const ext = path.extname(targetPath);
+      const newPath = targetPath.replace(ext, `.${options.languages.target}${ext}`);
+      await fs.promises.rename(targetPath, newPath);
+      targetPath = newPath;
+    }
+
+    return targetPath;
+  }
+
   /**
    * 翻译单个文件
    */
@@ -471,6 +1805,19 @@ export class Translator {
     let content = '';
 
     try {
+      // 继续上次的运行时，已完成的文件沿用记录的结果
+      const fileKey = path.relative(this.getSourceBaseDir(options.input), sourcePath);
+      const completed = this.journal?.getCompleted(fileKey);
+      if (completed) {
+        if (completed.xliff) {
+          this.xliffFiles.push(completed.xliff);
+        }
+        if (progressBar) {
+          this.progressManager.updateProgress(progressBar, 100, '已完成');
+        }
+        return completed.result;
+      }
+
       if (!this.isFileSupported(sourcePath)) {
         throw new APIError(
           FILE_ERRORS.UNSUPPORTED_TYPE.message,
@@ -497,12 +1844,37 @@ export class Translator {
         );
       }
 
+      // 按路由规则选择文件使用的模型
+      const modelChain = this.router.createChain(this.router.resolve(fileKey, Buffer.byteLength(content)));
+      options = { ...options, modelChain };
+
+      // 增量翻译：源文件和配置都未变更且译文文件仍在时直接跳过
+      const sourceHash = hashContent(content);
+      const configHash = this.getConfigHash(options);
+      const previous = this.manifest?.get(fileKey, options.languages.target);
+      const previousOutput = previous && path.join(options.output, previous.outputPath);
+      // 清单按目标语言分别记录；同一目标语言的配置变更后上次的译文不再可用，但仍写入同一个译文文件
+      const reusable = !options.force && previous?.configHash === configHash ? previous : undefined;
+      if (reusable?.sourceHash === sourceHash && previousOutput && pathExists(previousOutput)) {
+        if (progressBar) {
+          this.progressManager.updateProgress(progressBar, 100, '未变更');
+        }
+        return {
+          sourcePath,
+          targetPath: previousOutput,
+          tokenUsage: { inputTokens: 0, estimatedOutputTokens: 0, estimatedCost: 0 },
+          duration: Date.now() - startTime,
+          chunkCount: 0,
+          skipped: true,
+        };
+      }
+
       // 如果未指定源语言，尝试自动检测
       if (!options.languages.source) {
         if (progressBar) {
           this.progressManager.updateStatus(progressBar, '检测语言...');
         }
-        options.languages.source = await this.detectLanguage(content);
+        options.languages.source = await this.detectLanguage(content, modelChain);
         logger.info(`检测到源语言：${LANGUAGE_NAMES[options.languages.source]}`);
       }
 
@@ -514,99 +1886,145 @@ export class Translator {
       }
       logger.info(`预估成本 ${path.basename(sourcePath)}: $${estimatedCost.toFixed(6)}`);
 
-      // 确保目标目录存在
-      ensureDir(path.dirname(targetPath));
-
-      // 如果目标文件已存在且启用了自动重命名
-      if (this.config.autoRename && await pathExists(targetPath)) {
-        targetPath = generateUniqueFileName(targetPath);
-      }
-
       if (progressBar) {
         this.progressManager.updateProgress(progressBar, 0, '翻译中...');
       }
 
-      // 使用流式传输发送翻译请求
-      const stream = await this.withRetry(() =>
-        this.openai.chat.completions.create({
-          model: this.config.modelName,
-          messages: [
-            { role: 'system', content: this.generateSystemPrompt(options) },
-            { role: 'user', content }
-          ],
-          temperature: this.config.temperature || 0.3,
-          stream: true,
-        })
+      // 按文件格式解析，提取需要翻译的段落
+      const handler = getFormatHandler(this.formatHandlers, sourcePath, options);
+      const existingTranslation = handler.localeBundle ? await this.readExistingTranslation(targetPath) : undefined;
+      const document = handler.parse(content, sourcePath, options, existingTranslation);
+      const translated = await this.translateSegments(
+        document.segments,
+        options,
+        handler,
+        progressBar ?? null,
+        // 上次中断前已翻译的分段同样不再调用 API
+        [...(reusable?.units ?? []), ...(this.journal?.getUnits(fileKey) ?? [])],
+        units => this.journal?.recordUnits(fileKey, units)
       );
+      const { chunkCount, memory, reused, maskIssues, incomplete } = translated;
+      if (maskIssues.length > 0) {
+        logger.warn(`${path.basename(sourcePath)}：${maskIssues.length} 处受保护内容被模型丢失或重复`);
+      }
 
-      let translatedContent = '';
-      let progress = 0;
-      let lastProgressUpdate = Date.now();
-      const progressUpdateInterval = 100; // 每100ms更新一次进度
-
-      for await (const chunk of stream) {
-        const content = chunk.choices[0]?.delta?.content || '';
-        translatedContent += content;
+      // 术语检查：列出（或修正）未使用规定译法的术语
+      const glossaryChecked = await this.enforceGlossary(translated.units, options, handler);
+      const { violations, repaired } = glossaryChecked;
+      if (violations.length > 0) {
+        logger.warn(`${path.basename(sourcePath)}：${violations.length} 处术语未使用术语表规定的译法`);
+      }
 
-        // 更新进度条，但限制更新频率
-        if (progressBar && Date.now() - lastProgressUpdate >= progressUpdateInterval) {
-          progress = Math.min(progress + content.length / tokenCount * 100, 99);
-          this.progressManager.updateProgress(progressBar, progress, '翻译中...');
-          lastProgressUpdate = Date.now();
+      // 审校：评分并按置信度自动采纳修改建议
+      let reviewedUnits = glossaryChecked.units;
+      let review: ReviewSummary | undefined;
+      if (this.config.review.enabled) {
+        if (progressBar) {
+          this.progressManager.updateStatus(progressBar, '审校中...');
+        }
+        ({ units: reviewedUnits, summary: review } = await this.reviewTranslation(
+          glossaryChecked.units,
+          options,
+          applied => this.journal?.recordUnits(fileKey, applied)
+        ));
+        if (review.segments.length > review.appliedCount) {
+          logger.warn(`${path.basename(sourcePath)}：${review.segments.length - review.appliedCount} 个分段的审校评分较低或建议未通过检查，建议人工审校`);
         }
       }
 
-      // 准备最终内容
-      let finalContent = '';
-
-      // 添加元数据
-      const metadata = this.metadataManager.generate(options);
-      if (metadata) {
-        finalContent += metadata;
+      // 质量检查：按策略写入、重新翻译或标记为失败
+      const { units, results: validation, retries } = await this.validateTranslation(
+        reviewedUnits,
+        options,
+        handler,
+        document,
+        maskIssues,
+        incomplete,
+        retried => this.journal?.recordUnits(fileKey, retried)
+      );
+      const failedChecks = validation.filter(result => !result.passed);
+      if (failedChecks.length > 0) {
+        logger.warn(`${path.basename(sourcePath)}：未通过质量检查（${failedChecks.map(result => result.validator).join('，')}）`);
       }
-
-      // 处理双语对照翻译
-      const processedContent = this.formatBilingualContent(content, translatedContent);
-
-      // 如果需要保留原文且未启用双语对照
-      if (this.config.keepOriginalContent && !this.config.bilingualMode.enabled) {
-        finalContent += content + this.config.contentSeparator;
+      if (incomplete.size > 0) {
+        logger.warn(`${path.basename(sourcePath)}：${incomplete.size} 个分段的模型输出被截断或过滤，译文不完整`);
       }
 
-      // 添加翻译内容
-      finalContent += processedContent;
+      // 回译评估：列出回译与原文偏离较大的分段
+      let backTranslation: BackTranslationResult | undefined;
+      if (options.qa === 'back-translate') {
+        if (progressBar) {
+          this.progressManager.updateStatus(progressBar, '回译评估...');
+        }
+        backTranslation = await this.backTranslate(units, options, handler);
+        if (backTranslation.lowScoring.length > 0) {
+          logger.warn(`${path.basename(sourcePath)}：${backTranslation.lowScoring.length} 个分段的回译与原文偏离较大`);
+        }
+      }
 
-      // 写入文件
-      if (progressBar) {
-        this.progressManager.updateProgress(progressBar, 99, '保存文件...');
+      let xliffFile: XliffFile | undefined;
+      if (options.xliffExport) {
+        // 导出模式只记录翻译单元，审校后再通过导入生成译文
+        xliffFile = {
+          original: fileKey.split(path.sep).join('/'),
+          sourceLanguage: options.languages.source,
+          targetLanguage: options.languages.target,
+          units,
+        };
+        this.xliffFiles.push(xliffFile);
+        targetPath = path.join(options.output, XLIFF_FILE_NAME);
+      } else {
+        // 写入文件
+        if (progressBar) {
+          this.progressManager.updateProgress(progressBar, 99, '保存文件...');
+        }
+        const translations = this.assembleTranslations(document.segments, units);
+        targetPath = previousOutput
+          ? await this.writeTranslation(content, document, handler, translations, previousOutput, options, true)
+          : await this.writeTranslation(content, document, handler, translations, targetPath, options);
+
+        // 译文不完整时不记录原文哈希，下次运行时重新翻译不完整的分段
+        this.manifest?.set(fileKey, options.languages.target, {
+          sourceHash: incomplete.size > 0 ? '' : sourceHash,
+          configHash,
+          outputPath: path.relative(options.output, targetPath),
+          units: units.filter(unit => !incomplete.has(unit.id)),
+          updatedAt: new Date().toISOString(),
+        });
       }
-      await this.writeFileContent(targetPath, finalContent);
 
       if (progressBar) {
         this.progressManager.updateProgress(progressBar, 100, '完成');
       }
 
-      // 如果启用了自动重命名，添加语言后缀
-      if (this.config.autoRename) {
-        const ext = path.extname(targetPath);
-        const newPath = targetPath.replace(ext, `.${options.languages.target}${ext}`);
-        await fs.promises.rename(targetPath, newPath);
-        targetPath = newPath;
-      }
-
       const endTime = Date.now();
       const duration = endTime - startTime;
 
-      return {
+      const result: TranslationResult = {
         sourcePath,
         targetPath,
         tokenUsage: {
           inputTokens: tokenCount,
           estimatedOutputTokens: Math.ceil(tokenCount * 1.3),
           estimatedCost,
+          actual: { ...modelChain.usage },
+          actualCost: this.calculateActualCost(modelChain.usage, options),
         },
         duration,
+        chunkCount,
+        ...(this.memory && { memory }),
+        ...(reused > 0 && { reusedCount: reused }),
+        ...(this.glossary && { glossaryViolations: violations, glossaryRepaired: repaired }),
+        ...(maskIssues.length > 0 && { maskIssues }),
+        ...(validation.length > 0 && { validation }),
+        ...(retries > 0 && { validationRetries: retries }),
+        ...(incomplete.size > 0 && { incompleteUnits: Array.from(incomplete) }),
+        ...(backTranslation && { backTranslation }),
+        ...(review && { review }),
+        ...(modelChain.used.length > 0 && { models: modelChain.used }),
       };
+      this.journal?.recordFile(fileKey, result, xliffFile);
+      return result;
     } catch (error) {
       if (progressBar) {
         this.progressManager.updateProgress(progressBar, 0, '失败');
@@ -653,6 +2071,8 @@ export class Translator {
       const { task } = this.taskQueue.shift()!;
       const promise = limit(async () => {
         try {
+          // 收到停止信号后不再开始新的文件
+          this.checkInterrupted();
           return await task();
         } catch (error) {
           // 如果是可重试的错误，将任务重新加入队列
@@ -719,6 +2139,208 @@ export class Translator {
     }
   }
 
+  /**
+   * 计算输出路径，语言包模式下将路径中的源语言替换为目标语言（如 en.json → zh.json）
+   */
+  private resolveTargetPath(relativePath: string, options: TranslationOptions): string {
+    const localized = options.localeBundle
+      ? localizePath(relativePath, options.languages.source, options.languages.target)
+      : relativePath;
+    return path.join(options.output, localized);
+  }
+
+  /**
+   * 语言包模式下只翻译源语言的语言包（目录中没有按语言命名的文件时翻译全部）
+   */
+  private filterLocaleFiles(files: string[], input: string, options: TranslationOptions): string[] {
+    if (!options.localeBundle) return files;
+
+    const { source, target } = options.languages;
+    const sourceFiles = files.filter(file => {
+      const relativePath = path.relative(input, file);
+      return localizePath(relativePath, source, target) !== relativePath;
+    });
+    return sourceFiles.length > 0 ? sourceFiles : files;
+  }
+
+  /**
+   * 读取已有的译文文件，不存在时返回 undefined
+   */
+  private async readExistingTranslation(targetPath: string): Promise<string | undefined> {
+    return pathExists(targetPath) ? this.readFileContent(targetPath) : undefined;
+  }
+
+  /**
+   * 获取源文件的基准目录（输入为目录时即该目录，否则为文件所在目录）
+   */
+  private getSourceBaseDir(input: string): string {
+    return fs.statSync(input).isDirectory() ? input : path.dirname(input);
+  }
+
+  /**
+   * 计算影响译文内容的配置哈希（模型、提示词、目标语言和各格式的设置），配置变更后需要重新翻译
+   */
+  private getConfigHash(options: TranslationOptions): string {
+    const { config } = this;
+    return hashContent(JSON.stringify({
+      target: options.languages.target,
+      skipProperNouns: options.skipProperNouns,
+      skipCodeBlocks: options.skipCodeBlocks,
+      localeBundle: !!options.localeBundle,
+      modelName: options.modelChain?.targets[0].model ?? config.modelName,
+      temperature: config.temperature,
+      systemPromptTemplate: config.systemPromptTemplate,
+      properNouns: config.properNouns,
+      protectBuiltinPatterns: config.protectBuiltinPatterns,
+      bilingualMode: config.bilingualMode,
+      keepOriginalContent: config.keepOriginalContent,
+      contentSeparator: config.contentSeparator,
+      addMetadata: config.addMetadata,
+      htmlTranslatableAttributes: config.htmlTranslatableAttributes,
+      structuredKeys: config.structuredKeys,
+      csv: config.csv,
+      subtitleMaxLineLength: config.subtitleMaxLineLength,
+      notebookTranslateComments: config.notebookTranslateComments,
+      glossary: this.glossary?.getTerms(options.languages),
+      // 只有自动采纳审校建议时审校才会改变译文
+      review: config.review.enabled && config.review.autoApply ? config.review : undefined,
+    }));
+  }
+
+  /**
+   * 将收集的翻译单元写入 XLIFF 文件
+   */
+  private async writeXliff(options: TranslationOptions): Promise<void> {
+    if (!options.xliffExport) return;
+
+    const files = [...this.xliffFiles].sort((a, b) => a.original.localeCompare(b.original));
+    this.xliffFiles = [];
+
+    const xliffPath = path.join(options.output, XLIFF_FILE_NAME);
+    ensureDir(options.output);
+    await this.writeFileContent(xliffPath, buildXliff(files, options.xliffExport));
+    logger.success(`已导出 XLIFF：${xliffPath}`);
+  }
+
+  /**
+   * 从审校后的 XLIFF 文件生成译文，不调用模型
+   */
+  public async importXliff(options: TranslationOptions): Promise<TranslationResult[]> {
+    const startTime = Date.now();
+    const xliffPath = options.xliffImport!;
+    if (!pathExists(xliffPath)) {
+      throw new APIError(FILE_ERRORS.NOT_FOUND.message, -1, FILE_ERRORS.NOT_FOUND.suggestion);
+    }
+
+    const files = parseXliff(await this.readFileContent(xliffPath));
+    await this.memory?.load();
+    const baseDir = this.getSourceBaseDir(options.input);
+    const isDirectory = fs.statSync(options.input).isDirectory();
+    const results: TranslationResult[] = [];
+
+    for (const file of files) {
+      const fileStartTime = Date.now();
+      const sourcePath = path.join(baseDir, file.original);
+      if (!pathExists(sourcePath)) {
+        throw new APIError(FILE_ERRORS.NOT_FOUND.message, -1, `${FILE_ERRORS.NOT_FOUND.suggestion}（${sourcePath}）`);
+      }
+
+      // 语言对以 XLIFF 中记录的为准
+      const fileOptions: TranslationOptions = {
+        ...options,
+        languages: { source: file.sourceLanguage, target: file.targetLanguage },
+      };
+      const content = await this.readFileContent(sourcePath);
+      const handler = getFormatHandler(this.formatHandlers, sourcePath, fileOptions);
+      const outputPath = this.resolveTargetPath(isDirectory ? file.original : path.basename(sourcePath), fileOptions);
+      const existingTranslation = handler.localeBundle ? await this.readExistingTranslation(outputPath) : undefined;
+      const document = handler.parse(content, sourcePath, fileOptions, existingTranslation);
+      const translations = this.assembleTranslations(document.segments, file.units);
+
+      // 审校后的译文作为人工译文写入记忆库
+      file.units.forEach(unit => this.memory?.add(unit.source, unit.target, fileOptions.languages, ''));
+
+      const targetPath = await this.writeTranslation(
+        content,
+        document,
+        handler,
+        translations,
+        outputPath,
+        fileOptions
+      );
+
+      logger.info(`已生成译文：${targetPath}`);
+      results.push({
+        sourcePath,
+        targetPath,
+        tokenUsage: { inputTokens: 0, estimatedOutputTokens: 0, estimatedCost: 0 },
+        duration: Date.now() - fileStartTime,
+        chunkCount: file.units.length,
+      });
+    }
+
+    await this.memory?.save();
+
+    // 生成报告
+    if (this.config.generateReport) {
+      const reportPath = path.join(options.output, 'translation-report.md');
+      await fs.promises.writeFile(
+        reportPath,
+        this.generateReport(results, Date.now() - startTime)
+      );
+    }
+
+    await this.openOutputDir(options.output);
+
+    return results;
+  }
+
+  /**
+   * 从输入文件中提取候选术语（已在术语表中的除外），调用一次模型给出建议译法
+   */
+  public async extractGlossary(options: GlossaryExtractOptions): Promise<GlossaryTerm[]> {
+    const { input, languages } = options;
+    const files = (fs.statSync(input).isDirectory() ? this.getAllFiles(input) : [input])
+      .filter(file => this.isFileSupported(file));
+    if (files.length === 0) {
+      throw new APIError(FILE_ERRORS.NOT_FOUND.message, -1, FILE_ERRORS.NOT_FOUND.suggestion);
+    }
+
+    const contents = await Promise.all(files.map(file => this.readFileContent(file)));
+    await this.glossary?.load();
+    const known = new Set(this.glossary?.getTerms(languages).map(term => term.source.toLowerCase()) ?? []);
+    const candidates = extractTermCandidates(contents, this.config.properNouns?.patterns ?? [], options.minCount)
+      .filter(candidate => !known.has(candidate.term.toLowerCase()))
+      .slice(0, options.maxTerms);
+    if (candidates.length === 0) return [];
+
+    const terms = Object.fromEntries(candidates.map((candidate, index) => [String(index + 1), candidate.term]));
+    const contexts = Object.fromEntries(candidates.map((candidate, index) => [String(index + 1), candidate.context]));
+    const systemPrompt = [
+      `你是一个术语专家，负责为${LANGUAGE_NAMES[languages.source]}文档制定${LANGUAGE_NAMES[languages.target]}术语表。`,
+      '输入是一个 JSON 对象，键为编号，值为文档中反复出现的术语，另附各术语在文档中的上下文。',
+      '请为每个术语给出最合适的译法；产品名、品牌名、代码标识符等通常不翻译的术语，译法与原文相同。',
+      '键保持不变，只输出结构相同的 JSON 对象，值为译法，不要输出其他内容。',
+    ].join('\n');
+
+    const response = await this.requestCompletion(this.router.createChain(), {
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: `${JSON.stringify(terms, null, 2)}\n\n上下文：\n${JSON.stringify(contexts, null, 2)}` },
+      ],
+      temperature: 0,
+    });
+
+    const results = this.parseBatchOutput(response.content, candidates.length);
+    if (!results) {
+      throw new APIError(FORMAT_ERRORS.BATCH_MISMATCH.message, -1, FORMAT_ERRORS.BATCH_MISMATCH.suggestion);
+    }
+
+    return candidates
+      .map((candidate, index) => ({ source: candidate.term, target: results[index].trim() }))
+      .filter(term => term.target);
+  }
+
   /**
    * 翻译文件或目录
    */
@@ -726,13 +2348,30 @@ export class Translator {
     const { input } = options;
     const startTime = Date.now();
 
+    // 导出 XLIFF 时不写入译文文件，不使用清单
+    this.manifest = this.config.incremental && !options.xliffExport ? new TranslationManifest(options.output) : null;
+    this.journal = new RunJournal(options.output);
+    this.stopRequested = false;
+    this.abortController = new AbortController();
+    process.on('SIGINT', this.handleStopSignal);
+    process.on('SIGTERM', this.handleStopSignal);
+
     try {
+      await this.memory?.load();
+      await this.glossary?.load();
+      await this.manifest?.load();
+      if (options.resume) {
+        await this.journal.resume();
+        await this.removeTempFiles(this.journal.getTempFiles());
+      } else {
+        await this.journal.start(options);
+      }
       const stats = fs.statSync(input);
       const isDirectory = stats.isDirectory();
 
       if (isDirectory) {
         // 获取所有需要翻译的文件
-        const files = this.getAllFiles(input);
+        const files = this.filterLocaleFiles(this.getAllFiles(input), input, options);
 
         if (files.length === 0) {
           throw new APIError(
@@ -752,7 +2391,7 @@ export class Translator {
         const promises = files.map((filePath, index) => {
           // 计算相对路径，用于在输出目录中保持相同的目录结构
           const relativePath = path.relative(input, filePath);
-          const targetPath = path.join(options.output, relativePath);
+          const targetPath = this.resolveTargetPath(relativePath, options);
           const fileBar = this.progressManager.createBar(
             `文件 ${index + 1}/${files.length}`,
             100,
@@ -779,8 +2418,10 @@ export class Translator {
 
               return result;
             } catch (error) {
-              logger.error(`翻译失败：${relativePath}`);
-              logger.error(error instanceof Error ? error.message : String(error));
+              if (!this.stopRequested) {
+                logger.error(`翻译失败：${relativePath}`);
+                logger.error(error instanceof Error ? error.message : String(error));
+              }
 
               completedFiles++;
               if (totalBar) {
@@ -792,14 +2433,22 @@ export class Translator {
           });
         });
 
+        // 失败和中断的文件已在任务中处理，避免出现未处理的 Promise 拒绝
+        promises.forEach(promise => promise.catch(() => {}));
+
         // 处理任务队列
         const results = await this.processTasks(options.concurrency);
         const endTime = Date.now();
 
         this.progressManager.stop();
+        this.checkInterrupted();
 
-        // 过滤掉失败的结果
+        // 过滤掉失败的结果，有失败的文件时保留运行记录，可使用 --resume 重试
         const validResults = results.filter((r): r is TranslationResult => r !== null);
+        if (validResults.length === files.length) {
+          await this.journal.remove();
+        }
+        await this.writeXliff(options);
 
         // 生成报告
         if (this.config.generateReport) {
@@ -815,14 +2464,16 @@ export class Translator {
 
         return validResults;
       } else {
-        const targetPath = generateTargetPath(input, options.output);
+        const targetPath = this.resolveTargetPath(path.basename(input), options);
         const fileBar = this.progressManager.createBar('翻译进度', 100, path.basename(input));
         const result = await this.translateFile(input, targetPath, options, fileBar);
         const endTime = Date.now();
 
         this.progressManager.stop();
+        await this.journal.remove();
 
         const results = [result];
+        await this.writeXliff(options);
 
         // 生成报告
         if (this.config.generateReport) {
@@ -841,6 +2492,17 @@ export class Translator {
     } catch (error) {
       this.progressManager.stop();
       throw error;
+    } finally {
+      process.off('SIGINT', this.handleStopSignal);
+      process.off('SIGTERM', this.handleStopSignal);
+
+      // 失败或中断时也保存已完成的译文和进度
+      await this.journal.flush();
+      if (this.stopRequested) {
+        await this.removeTempFiles(this.tempFiles);
+      }
+      await this.memory?.save();
+      await this.manifest?.save();
     }
   }
 }
@@ -39,15 +39,55 @@ export interface TranslationOptions {
   inputPricePerMillionTokens?: number;
   /** 每百万 token 的输出价格（美元） */
   outputPricePerMillionTokens?: number;
+  /** 语言包模式：保护插值和 ICU 语法，已有目标语言包时只补充缺失的键 */
+  localeBundle?: boolean;
+  /** 导出 XLIFF 供人工审校（不直接写入译文文件） */
+  xliffExport?: XliffVersion;
+  /** 从审校后的 XLIFF 文件重建译文 */
+  xliffImport?: string;
+  /** 忽略翻译清单，重新翻译所有文件 */
+  force?: boolean;
+  /** 从输出目录中的运行记录继续上次中断的翻译 */
+  resume?: boolean;
+  /** 命令行覆盖的配置，随翻译选项记录到运行记录中，继续翻译时重新应用 */
+  configOverrides?: Partial<Config>;
+  /** 译后质量评估方式：back-translate 将译文回译为源语言并与原文比较 */
+  qa?: QaMode;
+  /** 当前文件使用的模型（翻译每个文件时按路由规则设置） */
+  modelChain?: ModelChain;
 }
 
+export type QaMode = 'back-translate';
+
 export interface Config {
+  /** 模型提供商 */
+  provider: ProviderName;
   /** API 端点 */
   apiEndpoint: string;
   /** API 密钥 */
   apiKey: string;
   /** 模型名称 */
   modelName: string;
+  /** 单次请求的最大输出 token 数（0 表示使用提供商的默认值） */
+  maxOutputTokens: number;
+  /** Azure OpenAI 配置 */
+  azure: {
+    /** 部署名称（为空时使用模型名称） */
+    deployment: string;
+    /** API 版本 */
+    apiVersion: string;
+  };
+  /** 限流设置（每个模型单独计算） */
+  rateLimit: {
+    /** 每分钟请求数上限（0 表示以服务端返回的限额为准） */
+    requestsPerMinute: number;
+    /** 每分钟 token 数上限（0 表示以服务端返回的限额为准） */
+    tokensPerMinute: number;
+  };
+  /** 备用模型：首选模型重试用尽后仍返回 429 / 503 等错误时按顺序尝试 */
+  fallbackModels: ModelTarget[];
+  /** 模型路由规则：按顺序匹配，第一条匹配的规则决定文件使用的首选模型 */
+  modelRoutes: ModelRoute[];
   /** 最大并发翻译数量 */
   maxConcurrentTranslations: number;
   /** 重试次数 */
@@ -94,6 +134,91 @@ export interface Config {
   maxRecursiveDepth: number;
   /** 最大文件大小限制（MB） */
   maxFileSize: number;
+  /** 单个分段的最大 token 数 */
+  maxChunkTokens: number;
+  /** 计算 token 数使用的分词器（auto 表示按模型名称选择） */
+  tokenizer: TokenizerName | 'auto';
+  /** 分段翻译时携带的上文长度（字符数，0 表示不携带） */
+  chunkContextSize: number;
+  /** HTML/XML 中需要翻译的属性 */
+  htmlTranslatableAttributes: string[];
+  /** 是否覆盖已有译文（PO 等包含译文的格式默认只翻译缺失的条目） */
+  overwriteTranslations: boolean;
+  /** CSV 翻译配置 */
+  csv: {
+    /** 需要翻译的列（列名或从 1 开始的列号，为空表示全部） */
+    columns: string[];
+    /** 分隔符 */
+    delimiter: string;
+    /** 第一行是否为表头 */
+    hasHeader: boolean;
+    /** 是否将译文写入新列（列名为 原列名_目标语言），而不是覆盖原列 */
+    appendColumns: boolean;
+  };
+  /** 字幕每行的最大字符数，超出时折行（0 表示不折行） */
+  subtitleMaxLineLength: number;
+  /** 是否翻译 Notebook 代码单元格中的注释 */
+  notebookTranslateComments: boolean;
+  /** 翻译记忆库配置 */
+  translationMemory: {
+    /** 是否启用 */
+    enabled: boolean;
+    /** 记忆库文件路径 */
+    path: string;
+    /** 模糊匹配的最低相似度（0-1） */
+    fuzzyThreshold: number;
+    /** 每个分段最多提供的参考译文数量 */
+    maxFuzzyMatches: number;
+  };
+  /** 是否在本地用占位符保护 URL、邮箱、文件路径、版本号和环境变量名 */
+  protectBuiltinPatterns: boolean;
+  /** 增量翻译：根据输出目录中的清单跳过未变更的文件，只重新翻译变更的分段 */
+  incremental: boolean;
+  /** 术语表配置 */
+  glossary: {
+    /** 术语表文件（CSV / JSON / TBX） */
+    files: string[];
+    /** 译文未使用规定译法时的处理方式：flag 仅在报告中列出，repair 让模型修正后再列出仍未修正的 */
+    mode: GlossaryMode;
+  };
+  /** 审校配置 */
+  review: {
+    /** 是否在翻译后由模型审校 */
+    enabled: boolean;
+    /** 审校使用的模型（为空时使用翻译模型） */
+    model: string;
+    /** 是否自动采纳审校建议 */
+    autoApply: boolean;
+    /** 自动采纳建议所需的最低置信度（0-1） */
+    autoApplyConfidence: number;
+  };
+  /** 回译评估配置 */
+  backTranslation: {
+    /** chrF 分数（0-100）低于该值的分段视为语义偏离 */
+    threshold: number;
+    /** 是否让模型判断低分分段的回译与原文是否一致 */
+    judge: boolean;
+    /** 模型评分（0-100）低于该值的分段视为语义偏离 */
+    judgeThreshold: number;
+  };
+  /** 译文质量检查配置 */
+  validation: {
+    /** 启用的检查项 */
+    validators: ValidatorName[];
+    /** 检查未通过时的处理方式：warn 写入译文并在报告中列出，retry 重新翻译未通过的分段，fail 不写入译文并将文件标记为失败 */
+    policy: ValidationPolicy;
+    /** retry 策略下每个文件最多重新翻译的轮数 */
+    maxRetries: number;
+    /** 译文与原文长度比偏离预期比例的容许倍数 */
+    lengthRatioTolerance: number;
+  };
+  /** 结构化文件（JSON/YAML）的键路径过滤 */
+  structuredKeys: {
+    /** 仅翻译匹配的键路径（为空表示全部） */
+    include: string[];
+    /** 不翻译匹配的键路径 */
+    exclude: string[];
+  };
   /** 是否跳过专有名词翻译 */
   skipProperNouns: boolean;
   /** 是否跳过代码块翻译 */
@@ -122,10 +247,112 @@ export interface Config {
   };
 }
 
+export interface TextChunk {
+  /** 分段前的空白字符（原样保留，不参与翻译） */
+  prefix: string;
+  /** 需要翻译的文本 */
+  text: string;
+  /** 分段后的空白字符（原样保留，不参与翻译） */
+  suffix: string;
+}
+
+export interface ChunkTranslation {
+  /** 译文 */
+  text: string;
+  /** 模型输出是否完整（被截断或被内容过滤，且续写和重新分段后仍不完整时为 false） */
+  complete: boolean;
+}
+
+export interface TranslationMetadata {
+  /** 注释形式的元数据（由 METADATA_START_MARK / METADATA_END_MARK 包裹） */
+  comment: string;
+  /** 键值形式的元数据，供 PO 等有专门头部的格式使用 */
+  fields: Record<string, string>;
+}
+
+export interface Segment {
+  /** 段落 ID（在文件内唯一） */
+  id: string;
+  /** 需要翻译的原文 */
+  text: string;
+  /** 段落类型：block 为长文本，分段翻译并携带上文；inline 为短文本，批量翻译 */
+  kind: 'block' | 'inline';
+  /** 提供给模型的补充说明 */
+  note?: string;
+}
+
+export interface ParsedDocument {
+  /** 需要翻译的段落 */
+  segments: Segment[];
+  /** 根据译文重建文件内容 */
+  rebuild(translations: Map<string, string>): string;
+  /** 将元数据插入到输出内容中（默认将注释添加到文件开头） */
+  insertMetadata?(output: string, metadata: TranslationMetadata): string;
+  /** 将段落（或其分段）中格式处理器的占位符还原为原文内容，用于检查代码块等受保护的内容 */
+  restore?(segmentId: string, text: string): string;
+}
+
+export interface FormatHandler {
+  /** 格式名称 */
+  name: string;
+  /** 适用的文件扩展名 */
+  extensions: string[];
+  /** 附加到系统提示词中的格式说明 */
+  prompt?: string;
+  /** 是否为结构化格式（不保留原文、不做双语对照，元数据仅通过 insertMetadata 插入） */
+  structured?: boolean;
+  /** 是否只在语言包模式下使用 */
+  localeBundle?: boolean;
+  /** 解析文件内容，提取需要翻译的段落；existingTranslation 为已有的译文文件内容（仅语言包模式） */
+  parse(content: string, filePath: string, options: TranslationOptions, existingTranslation?: string): ParsedDocument;
+}
+
+export interface TranslationUnit {
+  /** 单元 ID：短文本段落与段落 ID 相同，长文本分段为「段落 ID#序号」 */
+  id: string;
+  /** 原文 */
+  source: string;
+  /** 译文 */
+  target: string;
+  /** 补充说明 */
+  note?: string;
+}
+
+export type XliffVersion = '1.2' | '2.0';
+
+export interface XliffFile {
+  /** 源文件相对于输入路径的路径 */
+  original: string;
+  sourceLanguage: LanguageCode;
+  targetLanguage: LanguageCode;
+  units: TranslationUnit[];
+}
+
+export interface PlaceholderCheck {
+  /** 译文中丢失的占位符 */
+  missing: string[];
+  /** 译文中重复出现的占位符 */
+  duplicated: string[];
+}
+
 export interface TokenUsage {
   inputTokens: number;
   estimatedOutputTokens: number;
   estimatedCost: number;
+  /** 实际用量（跳过的文件和导入的译文没有实际用量） */
+  actual?: ActualUsage;
+  /** 按实际用量计算的费用 */
+  actualCost?: number;
+}
+
+/**
+ * 一个文件所有请求的实际用量，包括语言检测、续写、重新拆分、质量检查后的重新翻译、回译和审校
+ */
+export interface ActualUsage extends CompletionUsage {
+  /** 成功的请求数（失败的请求不返回用量，不计入） */
+  requests: number;
+  /** 提供商未返回用量、按文本估算的请求数 */
+  estimatedRequests: number;
 }
 
 export interface TranslationResult {
@@ -134,6 +361,297 @@ export interface TranslationResult {
   tokenUsage: TokenUsage;
   /** 翻译耗时（毫秒） */
   duration: number;
+  /** 分段数量 */
+  chunkCount: number;
+  /** 翻译记忆库使用情况 */
+  memory?: MemoryStats;
+  /** 源文件未变更，沿用已有译文 */
+  skipped?: boolean;
+  /** 沿用上次译文的分段数 */
+  reusedCount?: number;
+  /** 译文中未使用规定译法的术语 */
+  glossaryViolations?: GlossaryViolation[];
+  /** 自动修正的术语数 */
+  glossaryRepaired?: number;
+  /** 模型丢失或重复的受保护内容 */
+  maskIssues?: MaskIssue[];
+  /** 各检查项的结果 */
+  validation?: ValidationResult[];
+  /** 因检查未通过而重新翻译的轮数 */
+  validationRetries?: number;
+  /** 译文不完整的翻译单元 ID（模型输出被截断或被内容过滤） */
+  incompleteUnits?: string[];
+  /** 回译评估结果 */
+  backTranslation?: BackTranslationResult;
+  /** 审校结果 */
+  review?: ReviewSummary;
+  /** 实际使用的模型（按使用顺序，切换到备用模型时有多个） */
+  models?: string[];
+}
+
+export interface MemoryEntry {
+  source: string;
+  target: string;
+  sourceLanguage: LanguageCode;
+  targetLanguage: LanguageCode;
+  /** 生成译文的模型，人工译文（TMX 导入、XLIFF 审校）为空 */
+  model: string;
+  /** 写入时间（ISO 格式） */
+  createdAt: string;
+}
+
+export interface MemoryMatch {
+  source: string;
+  target: string;
+  /** 与查询原文的相似度（0-1） */
+  similarity: number;
+}
+
+export interface MemoryStats {
+  /** 查询次数 */
+  lookups: number;
+  /** 精确命中次数（不调用 API） */
+  exactHits: number;
+  /** 提供了模糊匹配参考译文的次数 */
+  fuzzyHits: number;
+  /** 精确命中节省的费用（美元） */
+  savedCost: number;
+}
+
+export interface MaskIssue {
+  /** 受保护的原始内容 */
+  original: string;
+  /** dropped：译文中丢失；duplicated：译文中重复出现 */
+  problem: 'dropped' | 'duplicated';
+}
+
+/**
+ * 译文未使用术语表规定的译法时的处理方式
+ */
+export type GlossaryMode = 'flag' | 'repair';
+
+export const GLOSSARY_MODES: GlossaryMode[] = ['flag', 'repair'];
+
+/**
+ * 译文质量检查项：标题层级、代码块、链接、占位符、长度比、残留原文
+ */
+export type ValidatorName = 'headings' | 'codeBlocks' | 'links' | 'placeholders' | 'lengthRatio' | 'residualSource';
+
+export const VALIDATOR_NAMES: ValidatorName[] = ['headings', 'codeBlocks', 'links', 'placeholders', 'lengthRatio', 'residualSource'];
+
+/**
+ * 译文未通过质量检查时的处理方式
+ */
+export type ValidationPolicy = 'warn' | 'retry' | 'fail';
+
+export const VALIDATION_POLICIES: ValidationPolicy[] = ['warn', 'retry', 'fail'];
+
+/**
+ * 分词器：o200k（GPT-4o、GPT-4.1、GPT-5、o 系列）、cl100k（GPT-4、GPT-3.5）、heuristic（按字符类型估算，用于其他模型）
+ */
+export type TokenizerName = 'o200k' | 'cl100k' | 'heuristic';
+
+export const TOKENIZER_NAMES: TokenizerName[] = ['o200k', 'cl100k', 'heuristic'];
+
+/**
+ * 本地计算 token 数的分词器
+ */
+export interface Tokenizer {
+  readonly name: TokenizerName;
+  count(text: string): number;
+}
+
+/**
+ * 模型提供商：openai（OpenAI 及兼容接口）、anthropic（Messages API）、azure（Azure OpenAI）、ollama（本地 Ollama 服务）
+ */
+export type ProviderName = 'openai' | 'anthropic' | 'azure' | 'ollama';
+
+export const PROVIDER_NAMES: ProviderName[] = ['openai', 'anthropic', 'azure', 'ollama'];
+
+/**
+ * 一个模型及其所在的提供商和端点
+ */
+export interface ModelTarget {
+  provider: ProviderName;
+  model: string;
+  apiEndpoint: string;
+  apiKey: string;
+}
+
+export interface ModelRoute {
+  /** 匹配条件：扩展名（.yml）、文件大小（>100kb、<10kb）或 glob（* 匹配单层，** 匹配任意层，不含 / 时只匹配文件名） */
+  pattern: string;
+  target: ModelTarget;
+}
+
+/**
+ * 一个文件可使用的模型：从 targets[active] 开始，当前模型重试用尽后切换到下一个，之后的请求继续使用切换后的模型
+ */
+export interface ModelChain {
+  targets: ModelTarget[];
+  active: number;
+  /** 实际返回过结果的模型 */
+  used: string[];
+  /** 通过该模型链发出的请求的实际用量 */
+  usage: ActualUsage;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature: number;
+  /** 要求模型只输出 JSON 对象（提供商不支持时仅依靠提示词） */
+  json?: boolean;
+  /** 用于中止请求 */
+  signal?: AbortSignal;
+}
+
+export interface CompletionUsage {
+  /** 输入 token 数 */
+  inputTokens: number;
+  /** 输出 token 数 */
+  outputTokens: number;
+}
+
+export interface CompletionResult {
+  /** 模型输出的全部内容 */
+  content: string;
+  /** 结束原因，统一为 stop、length（达到输出上限）、content_filter（被内容过滤） */
+  finishReason: string | null;
+  /** 提供商返回的 token 用量（未返回时为空） */
+  usage?: CompletionUsage;
+  /** 响应头（键为小写），限流器据此校正剩余额度 */
+  headers?: Record<string, string>;
+}
+
+/**
+ * 模型提供商适配器：请求失败时抛出经 handleAPIError 转换的 APIError
+ */
+export interface ModelProvider {
+  readonly name: ProviderName;
+  /** 请求一次补全 */
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  /** 流式请求一次补全，读取完整个流后返回 */
+  stream(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+export interface ValidationIssue {
+  /** 所在翻译单元的 ID */
+  unitId: string;
+  /** 问题说明 */
+  message: string;
+}
+
+export interface ValidationResult {
+  validator: ValidatorName;
+  passed: boolean;
+  issues: ValidationIssue[];
+}
+
+export interface ReviewScores {
+  /** 准确性（1-5） */
+  accuracy: number;
+  /** 流畅度（1-5） */
+  fluency: number;
+  /** 术语（1-5） */
+  terminology: number;
+}
+
+export interface SegmentReview extends ReviewScores {
+  /** 翻译单元 ID */
+  unitId: string;
+  /** 审校发现的问题 */
+  issues?: string;
+  /** 建议的译文 */
+  suggestion?: string;
+  /** 审校对建议的置信度（0-1） */
+  confidence: number;
+  /** 是否已自动采纳建议 */
+  applied: boolean;
+  /** 建议未通过占位符或链接检查时的问题说明，此类建议不会自动采纳 */
+  rejected?: string;
+}
+
+export interface ReviewSummary {
+  /** 审校使用的模型 */
+  model: string;
+  /** 审校的分段数 */
+  segmentCount: number;
+  /** 各项平均分 */
+  average: ReviewScores;
+  /** 自动采纳的建议数 */
+  appliedCount: number;
+  /** 需要人工关注的分段（有低分项或已自动采纳建议） */
+  segments: SegmentReview[];
+}
+
+export interface BackTranslationSegment {
+  /** 翻译单元 ID */
+  unitId: string;
+  /** 原文 */
+  source: string;
+  /** 译文回译为源语言的结果 */
+  backTranslation: string;
+  /** 回译与原文的 chrF 分数（0-100） */
+  score: number;
+  /** 模型对回译与原文语义一致程度的评分（0-100） */
+  judgeScore?: number;
+}
+
+export interface BackTranslationResult {
+  /** 所有分段 chrF 分数的平均值 */
+  averageScore: number;
+  /** 评估的分段数 */
+  segmentCount: number;
+  /** 低分分段 */
+  lowScoring: BackTranslationSegment[];
+}
+
+export interface GlossaryTerm {
+  source: string;
+  target: string;
+}
+
+export interface GlossaryViolation extends GlossaryTerm {
+  /** 所在翻译单元的 ID */
+  unitId: string;
+}
+
+export interface TermCandidate {
+  term: string;
+  /** 在所有文件中出现的次数 */
+  count: number;
+  /** 首次出现处的上下文 */
+  context: string;
+}
+
+export interface GlossaryExtractOptions {
+  /** 输入路径（文件或文件夹） */
+  input: string;
+  /** 源语言和目标语言 */
+  languages: LanguagePair;
+  /** 候选术语的最少出现次数 */
+  minCount: number;
+  /** 最多提取的术语数 */
+  maxTerms: number;
+}
+
+export interface ManifestEntry {
+  /** 源文件内容哈希 */
+  sourceHash: string;
+  /** 影响译文的配置哈希 */
+  configHash: string;
+  /** 译文文件路径（相对输出目录） */
+  outputPath: string;
+  /** 各分段的原文和译文 */
+  units: TranslationUnit[];
+  /** 更新时间（ISO 格式） */
+  updatedAt: string;
 }
 
 export interface LanguageMapping {
@@ -1,6 +1,8 @@
 import fs from 'fs';
 import path from 'path';
 import chalk from 'chalk';
+import { StringDecoder } from 'string_decoder';
+import { LanguageCode, LANGUAGE_NAMES } from './types';
 
 /**
  * 检查路径是否存在
@@ -44,11 +46,16 @@ export function getAllFiles(dir: string): string[] {
 }
 
 /**
- * 生成目标文件路径
+ * 将路径中表示源语言的部分替换为目标语言（语言包模式）
+ * 支持 en.json、messages.en.json 和 locales/en/common.json 等命名方式
  */
-export function generateTargetPath(sourcePath: string, outputDir: string): string {
-  const sourceBaseName = path.basename(sourcePath);
-  return path.join(outputDir, sourceBaseName);
+export function localizePath(filePath: string, source: string, target: string): string {
+  return filePath
+    .split(/([\\/])/)
+    .map(part => part === source
+      ? target
+      : part.replace(new RegExp(`(^|\\.)${source}(?=\\.[^.]+$)`), `$1${target}`))
+    .join('');
 }
 
 /**
@@ -77,6 +84,71 @@ export function generateUniqueFileName(filePath: string): string {
   return newPath;
 }
 
+/**
+ * 判断键路径是否匹配模式（* 匹配单层，** 匹配任意层）
+ */
+export function matchKeyPath(keyPath: string, pattern: string): boolean {
+  const regex = pattern
+    .split('.')
+    .map(part => part === '**' ? '.*' : part.replace(/[|\\{}()[\]^$+?]/g, '\\$&').replace(/\*/g, '[^.]*'))
+    .join('\\.');
+  return new RegExp(`^${regex}$`).test(keyPath);
+}
+
+/**
+ * 判断文件路径（以 / 分隔）是否匹配 glob 模式（* 和 ? 不跨越目录，** 匹配任意层目录），
+ * 不含 / 的模式只匹配文件名
+ */
+export function matchGlob(filePath: string, pattern: string): boolean {
+  const target = pattern.includes('/') ? filePath : filePath.slice(filePath.lastIndexOf('/') + 1);
+  const parts = pattern.replace(/^\.\//, '').split('/');
+  const regex = parts.map((part, index) => {
+    const last = index === parts.length - 1;
+    if (part === '**') return last ? '.*' : '(?:[^/]+/)*';
+    const escaped = part.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]');
+    return last ? escaped : `${escaped}/`;
+  }).join('');
+  return new RegExp(`^${regex}$`).test(target);
+}
+
+/**
+ * 根据包含/排除列表判断键路径是否需要翻译
+ */
+export function isKeyPathIncluded(keyPath: string, filter: { include: string[]; exclude: string[] }): boolean {
+  if (filter.include.length > 0 && !filter.include.some(pattern => matchKeyPath(keyPath, pattern))) {
+    return false;
+  }
+  return !filter.exclude.some(pattern => matchKeyPath(keyPath, pattern));
+}
+
+/**
+ * 判断字符串值是否需要翻译（跳过空值、纯数字符号和 URL）
+ */
+export function isTranslatableText(value: string): boolean {
+  const text = value.trim();
+  return /\p{L}/u.test(text) && !/^[a-z][\w+.-]*:\/\/\S+$/i.test(text);
+}
+
+/**
+ * 转义 XML 文本和属性值（回车符用字符引用保留，避免被解析器规范化）
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\r/g, '&#13;');
+}
+
+/**
+ * 将 en-US、zh_CN 等语言标记转换为支持的语言代码，不支持时返回 undefined
+ */
+export function normalizeLanguageCode(language: string | undefined): LanguageCode | undefined {
+  const code = language?.trim().toLowerCase().split(/[-_]/)[0] as LanguageCode | undefined;
+  return code && LANGUAGE_NAMES[code] ? code : undefined;
+}
+
 /**
  * 格式化日志消息
  */
@@ -86,3 +158,21 @@ export const logger = {
   error: (message: string) => console.log(chalk.red(message)),
   warn: (message: string) => console.log(chalk.yellow(message)),
 };
+
+/**
+ * 逐行读取流（如 SSE 和 NDJSON 响应），去掉行尾的 \r；多字节字符被拆到两个数据块时也能正确解码
+ */
+export async function* readLines(stream: AsyncIterable<Buffer | string>): AsyncGenerator<string> {
+  const decoder = new StringDecoder('utf8');
+  let buffer = '';
+  for await (const chunk of stream) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.write(chunk);
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      yield line.replace(/\r$/, '');
+    }
+  }
+  buffer += decoder.end();
+  if (buffer) yield buffer.replace(/\r$/, '');
+}
@@ -0,0 +1,279 @@
+import {
+  FormatHandler,
+  LanguageCode,
+  ParsedDocument,
+  TranslationOptions,
+  TranslationUnit,
+  ValidationIssue,
+  ValidationResult,
+  ValidatorName,
+  VALIDATOR_NAMES,
+} from './types';
+import { logger } from './utils';
+
+/**
+ * 各语言相对英文的字符数（不含空白）比例，用于估计译文的预期长度
+ */
+const LENGTH_FACTORS: Record<LanguageCode, number> = {
+  en: 1,
+  zh: 0.35,
+  ja: 0.5,
+  ko: 0.45,
+  fr: 1.2,
+  de: 1.2,
+  es: 1.2,
+  ru: 1.1,
+  ar: 0.9,
+  hi: 1.05,
+  pt: 1.15,
+  it: 1.15,
+};
+
+/**
+ * 原文不足该字符数（不含空白）时不检查长度比，短文本的长度变化过大
+ */
+const MIN_LENGTH_RATIO_CHARS = 40;
+
+/**
+ * 各语言特有的文字（日文以假名区分，汉字与中文共用）
+ */
+const LANGUAGE_SCRIPTS: Record<LanguageCode, string> = {
+  zh: '\\p{Script=Han}',
+  ja: '\\p{Script=Hiragana}\\p{Script=Katakana}',
+  ko: '\\p{Script=Hangul}',
+  ru: '\\p{Script=Cyrillic}',
+  ar: '\\p{Script=Arabic}',
+  hi: '\\p{Script=Devanagari}',
+  en: '\\p{Script=Latin}',
+  fr: '\\p{Script=Latin}',
+  de: '\\p{Script=Latin}',
+  es: '\\p{Script=Latin}',
+  pt: '\\p{Script=Latin}',
+  it: '\\p{Script=Latin}',
+};
+
+/**
+ * 词与词之间不使用空格的语言
+ */
+const UNSPACED_LANGUAGES: LanguageCode[] = ['zh', 'ja'];
+
+/**
+ * 译文中连续出现至少这么多个原文文字的单词（不使用空格的语言为字符）时视为残留原文
+ */
+const RESIDUAL_MIN_WORDS = 5;
+const RESIDUAL_MIN_CHARS = 6;
+
+/**
+ * 需要检查标题层级的格式
+ */
+const HEADING_FORMATS = ['markdown', 'notebook'];
+
+/**
+ * 始终保护代码块的格式（不受 skipCodeBlocks 影响）
+ */
+const CODE_PROTECTED_FORMATS = ['markdown', 'notebook'];
+
+const URL_PATTERN = /\b[a-z][a-z0-9+.-]*:\/\/[^\s<>"'`)\]]*[^\s<>"'`)\].,;:!?]/gi;
+const PLACEHOLDER_PATTERN = /⟦[A-Z]\d+⟧/g;
+const FENCED_CODE_PATTERN = /^ {0,3}(`{3,}|~{3,})[^\n]*\n[\s\S]*?^ {0,3}\1[ \t]*$/gm;
+const HEADING_PATTERN = /^ {0,3}(#{1,6})(?:[ \t]|$)/gm;
+
+/**
+ * 译文质量检查：逐个翻译单元对比原文和译文
+ */
+export class OutputValidator {
+  private validators: ValidatorName[];
+  private lengthRatioTolerance: number;
+
+  constructor(validators: ValidatorName[], lengthRatioTolerance: number) {
+    for (const name of validators) {
+      if (!VALIDATOR_NAMES.includes(name)) {
+        logger.warn(`未知的检查项，已忽略：${name}`);
+      }
+    }
+    this.validators = VALIDATOR_NAMES.filter(name => validators.includes(name));
+    this.lengthRatioTolerance = lengthRatioTolerance;
+  }
+
+  /**
+   * 检查所有翻译单元，返回每个检查项的结果
+   * @param document 文件的解析结果，代码块在还原格式处理器的占位符后检查
+   */
+  public validate(
+    units: TranslationUnit[],
+    options: TranslationOptions,
+    handler: FormatHandler,
+    document?: ParsedDocument
+  ): ValidationResult[] {
+    return this.validators
+      .filter(name => this.isApplicable(name, options, handler))
+      .map(validator => {
+        const issues: ValidationIssue[] = [];
+        for (const unit of units) {
+          if (!unit.source.trim()) continue;
+          // 长文本分段的单元 ID 为「段落 ID#序号」
+          const restore = (text: string) => document?.restore?.(unit.id.replace(/#\d+$/, ''), text) ?? text;
+          const message = this.check(validator, unit.source, unit.target, options, restore);
+          if (message) issues.push({ unitId: unit.id, message });
+        }
+        return { validator, passed: issues.length === 0, issues };
+      });
+  }
+
+  /**
+   * 检查替换的译文（如审校建议）是否保留了原文的占位符和链接，不受已启用检查项的限制，未通过时返回问题说明
+   */
+  public checkReplacement(source: string, target: string): string | undefined {
+    return this.checkPlaceholders(source, target) ?? this.checkLinks(source, target);
+  }
+
+  /**
+   * 检查项是否适用于当前文件：标题层级只检查 Markdown，代码块只在代码块应保持不变时检查
+   */
+  private isApplicable(name: ValidatorName, options: TranslationOptions, handler: FormatHandler): boolean {
+    if (name === 'headings') return HEADING_FORMATS.includes(handler.name);
+    if (name === 'codeBlocks') return options.skipCodeBlocks || CODE_PROTECTED_FORMATS.includes(handler.name);
+    return true;
+  }
+
+  /**
+   * 执行单项检查，未通过时返回问题说明
+   */
+  private check(
+    name: ValidatorName,
+    source: string,
+    target: string,
+    options: TranslationOptions,
+    restore: (text: string) => string
+  ): string | undefined {
+    switch (name) {
+      case 'headings':
+        return this.checkHeadings(source, target);
+      case 'codeBlocks':
+        return this.checkCodeBlocks(restore(source), restore(target));
+      case 'links':
+        return this.checkLinks(source, target);
+      case 'placeholders':
+        return this.checkPlaceholders(source, target);
+      case 'lengthRatio':
+        return this.checkLengthRatio(source, target, options);
+      case 'residualSource':
+        return this.checkResidualSource(source, target, options);
+    }
+  }
+
+  /**
+   * 标题的数量和层级与原文一致（忽略代码块中的 #）
+   */
+  private checkHeadings(source: string, target: string): string | undefined {
+    const levels = (text: string) =>
+      Array.from(text.replace(FENCED_CODE_PATTERN, '').matchAll(HEADING_PATTERN), match => match[1].length);
+    const expected = levels(source);
+    const actual = levels(target);
+    if (expected.join(',') !== actual.join(',')) {
+      return `标题层级不一致：原文 [${expected.join(', ')}]，译文 [${actual.join(', ')}]`;
+    }
+  }
+
+  /**
+   * 代码块与原文逐字节一致（Markdown 中的代码块已替换为占位符，需先还原）
+   */
+  private checkCodeBlocks(source: string, target: string): string | undefined {
+    const expected = Array.from(source.matchAll(FENCED_CODE_PATTERN), match => match[0]);
+    const actual = Array.from(target.matchAll(FENCED_CODE_PATTERN), match => match[0]);
+    if (expected.length !== actual.length) {
+      return `代码块数量不一致：原文 ${expected.length}，译文 ${actual.length}`;
+    }
+    const index = expected.findIndex((block, i) => block !== actual[i]);
+    if (index >= 0) {
+      return `第 ${index + 1} 个代码块被修改`;
+    }
+  }
+
+  /**
+   * 链接地址的集合与原文一致
+   */
+  private checkLinks(source: string, target: string): string | undefined {
+    const expected = new Set(source.match(URL_PATTERN) ?? []);
+    const actual = new Set(target.match(URL_PATTERN) ?? []);
+    const missing = Array.from(expected).filter(url => !actual.has(url));
+    const added = Array.from(actual).filter(url => !expected.has(url));
+    if (missing.length > 0 || added.length > 0) {
+      const details = [
+        missing.length > 0 ? `缺少 ${missing.join(', ')}` : '',
+        added.length > 0 ? `多出 ${added.join(', ')}` : '',
+      ].filter(Boolean);
+      return `链接不一致：${details.join('；')}`;
+    }
+  }
+
+  /**
+   * 每个占位符在译文中出现的次数与原文一致
+   */
+  private checkPlaceholders(source: string, target: string): string | undefined {
+    const count = (text: string) => {
+      const counts = new Map<string, number>();
+      for (const token of text.match(PLACEHOLDER_PATTERN) ?? []) {
+        counts.set(token, (counts.get(token) ?? 0) + 1);
+      }
+      return counts;
+    };
+    const expected = count(source);
+    const actual = count(target);
+    const tokens = new Set([...expected.keys(), ...actual.keys()]);
+    const mismatched = Array.from(tokens).filter(token => expected.get(token) !== actual.get(token));
+    if (mismatched.length > 0) {
+      return `占位符不一致：${mismatched.map(token => `${token}（原文 ${expected.get(token) ?? 0}，译文 ${actual.get(token) ?? 0}）`).join('，')}`;
+    }
+  }
+
+  /**
+   * 译文与原文的长度比在该语言对的预期比例附近
+   */
+  private checkLengthRatio(source: string, target: string, options: TranslationOptions): string | undefined {
+    const length = (text: string) => text.replace(PLACEHOLDER_PATTERN, '').replace(/\s+/g, '').length;
+    const sourceLength = length(source);
+    if (sourceLength < MIN_LENGTH_RATIO_CHARS) return undefined;
+
+    const { source: from, target: to } = options.languages;
+    const expected = LENGTH_FACTORS[to] / LENGTH_FACTORS[from];
+    const ratio = length(target) / sourceLength;
+    if (ratio < expected / this.lengthRatioTolerance || ratio > expected * this.lengthRatioTolerance) {
+      return `长度比异常：${ratio.toFixed(2)}（预期约 ${expected.toFixed(2)}）`;
+    }
+  }
+
+  /**
+   * 译文中没有残留未翻译的原文：文字不同的语言对查找连续的原文文字，文字相同的语言对检查译文是否照抄原文
+   */
+  private checkResidualSource(source: string, target: string, options: TranslationOptions): string | undefined {
+    const { source: from, target: to } = options.languages;
+    const strip = (text: string) => text
+      .replace(FENCED_CODE_PATTERN, ' ')
+      .replace(/`[^`\n]*`/g, ' ')
+      .replace(URL_PATTERN, ' ')
+      .replace(PLACEHOLDER_PATTERN, ' ');
+    const cleanSource = strip(source);
+    const cleanTarget = strip(target);
+
+    // 中文译为日文时汉字是共用的，无法区分
+    const shared = LANGUAGE_SCRIPTS[from] === LANGUAGE_SCRIPTS[to] || (from === 'zh' && to === 'ja');
+    if (shared) {
+      const words = cleanSource.match(/\p{L}+/gu) ?? [];
+      const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+      if (words.length >= RESIDUAL_MIN_WORDS && normalize(cleanSource) === normalize(cleanTarget)) {
+        return '译文与原文相同';
+      }
+      return undefined;
+    }
+
+    const script = LANGUAGE_SCRIPTS[from];
+    const pattern = UNSPACED_LANGUAGES.includes(from)
+      ? new RegExp(`[${script}]{${RESIDUAL_MIN_CHARS},}`, 'gu')
+      : new RegExp(`[${script}]+(?:[ \\t,'’-]+[${script}]+){${RESIDUAL_MIN_WORDS - 1},}`, 'gu');
+    const residual = (cleanTarget.match(pattern) ?? []).filter(run => cleanSource.includes(run));
+    if (residual.length > 0) {
+      return `残留未翻译的原文：${residual.map(run => run.length > 40 ? `${run.slice(0, 40)}…` : run).join('，')}`;
+    }
+  }
+}
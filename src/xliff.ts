@@ -0,0 +1,127 @@
+import { parseDocument, DomUtils } from 'htmlparser2';
+import { LanguageCode, LANGUAGE_NAMES, TranslationUnit, XliffFile, XliffVersion } from './types';
+import { APIError, FORMAT_ERRORS } from './errors';
+import { escapeXml } from './utils';
+
+type XmlElement = ReturnType<typeof DomUtils.getElementsByTagName>[number];
+
+/**
+ * 生成 XLIFF 文档，机器译文标记为待审校
+ */
+export function buildXliff(files: XliffFile[], version: XliffVersion): string {
+  return version === '2.0' ? buildXliff20(files) : buildXliff12(files);
+}
+
+function buildXliff12(files: XliffFile[]): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+  ];
+
+  for (const file of files) {
+    lines.push(
+      `  <file original="${escapeXml(file.original)}" source-language="${file.sourceLanguage}" target-language="${file.targetLanguage}" datatype="plaintext">`,
+      '    <body>'
+    );
+    for (const unit of file.units) {
+      lines.push(
+        `      <trans-unit id="${escapeXml(unit.id)}" xml:space="preserve">`,
+        `        <source>${escapeXml(unit.source)}</source>`,
+        `        <target state="needs-review-translation">${escapeXml(unit.target)}</target>`
+      );
+      if (unit.note) {
+        lines.push(`        <note>${escapeXml(unit.note)}</note>`);
+      }
+      lines.push('      </trans-unit>');
+    }
+    lines.push('    </body>', '  </file>');
+  }
+
+  lines.push('</xliff>', '');
+  return lines.join('\n');
+}
+
+function buildXliff20(files: XliffFile[]): string {
+  // 2.0 要求整个文档使用同一语言对
+  const [first] = files;
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="${first?.sourceLanguage ?? ''}" trgLang="${first?.targetLanguage ?? ''}">`,
+  ];
+
+  files.forEach((file, fileIndex) => {
+    lines.push(`  <file id="f${fileIndex + 1}" original="${escapeXml(file.original)}">`);
+    file.units.forEach((unit, unitIndex) => {
+      // unit 的 id 必须是 NMTOKEN，原始 ID 放在 name 中
+      lines.push(`    <unit id="u${unitIndex + 1}" name="${escapeXml(unit.id)}">`);
+      if (unit.note) {
+        lines.push('      <notes>', `        <note>${escapeXml(unit.note)}</note>`, '      </notes>');
+      }
+      lines.push(
+        '      <segment state="translated" subState="gpt-translator:needs-review">',
+        `        <source xml:space="preserve">${escapeXml(unit.source)}</source>`,
+        `        <target xml:space="preserve">${escapeXml(unit.target)}</target>`,
+        '      </segment>',
+        '    </unit>'
+      );
+    });
+    lines.push('  </file>');
+  });
+
+  lines.push('</xliff>', '');
+  return lines.join('\n');
+}
+
+/**
+ * 解析 XLIFF 1.2 / 2.0 文档
+ */
+export function parseXliff(content: string): XliffFile[] {
+  const document = parseDocument(content, { xmlMode: true });
+  const root = DomUtils.findOne(element => element.name === 'xliff', document.children);
+  if (!root) {
+    throw new APIError(FORMAT_ERRORS.PARSE_FAILED.message, -1, `${FORMAT_ERRORS.PARSE_FAILED.suggestion}（不是有效的 XLIFF 文件）`);
+  }
+
+  const is20 = root.attribs.version?.startsWith('2');
+  const files = DomUtils.getElementsByTagName('file', root, true);
+
+  return files.map(file => {
+    const sourceLanguage = (is20 ? root.attribs.srcLang : file.attribs['source-language']) as LanguageCode;
+    const targetLanguage = (is20 ? root.attribs.trgLang : file.attribs['target-language']) as LanguageCode;
+    if (!LANGUAGE_NAMES[sourceLanguage] || !LANGUAGE_NAMES[targetLanguage]) {
+      throw new APIError(
+        '不支持的语言',
+        -1,
+        `XLIFF 中的语言对 ${sourceLanguage}-${targetLanguage} 不受支持`
+      );
+    }
+
+    const units = is20
+      ? DomUtils.getElementsByTagName('unit', file, true).map(unit => readUnit(unit, unit.attribs.name || unit.attribs.id))
+      : DomUtils.getElementsByTagName('trans-unit', file, true).map(unit => readUnit(unit, unit.attribs.id));
+
+    return {
+      original: file.attribs.original,
+      sourceLanguage,
+      targetLanguage,
+      units,
+    };
+  });
+}
+
+/**
+ * 读取翻译单元的原文和译文（2.0 中多个 segment 按顺序拼接）
+ */
+function readUnit(unit: XmlElement, id: string): TranslationUnit {
+  const text = (name: string) => DomUtils.getElementsByTagName(name, unit, true)
+    .map(element => DomUtils.textContent(element))
+    .join('');
+  const note = text('note');
+
+  return {
+    id,
+    source: text('source'),
+    target: text('target'),
+    ...(note && { note }),
+  };
+}